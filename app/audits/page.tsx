@@ -0,0 +1,334 @@
+'use client';
+
+import { Fragment, Suspense, useEffect, useState } from 'react';
+import {
+  DataTable,
+  Table,
+  TableHead,
+  TableRow,
+  TableHeader,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableExpandHeader,
+  TableExpandRow,
+  TableExpandedRow,
+  Loading,
+  Grid,
+  Column,
+  Select,
+  SelectItem,
+  Tag,
+  Link,
+} from '@carbon/react';
+import { Launch } from '@carbon/icons-react';
+import Header from '@/components/Header';
+import FormFactorSwitch from '@/components/FormFactorSwitch';
+import { CategorizedAudits, CountryReport } from '@/types';
+import { useMonthDetails } from '@/hooks/useMonthDetails';
+import {
+  fetchRecommendations,
+  formatMonth,
+  RANKING_METRIC_LABELS,
+  SCORE_CATEGORIES,
+} from '@/utils/dataLoader';
+import { aggregateFailingAudits, getSeverityLabel } from '@/utils/auditAggregation';
+import { RecommendationCatalog, getAuditRecommendation } from '@/utils/auditRecommendations';
+import { WCAG_LEVEL_TAG_TYPES, WCAG_PRINCIPLE_LABELS, aggregateFailingCriteria } from '@/utils/wcag';
+
+const SEVERITY_TAG_TYPES = {
+  high: 'red',
+  medium: 'magenta',
+  low: 'blue',
+} as const;
+
+const summarizeAudits = (details: CountryReport[]) => ({
+  failures: aggregateFailingAudits(details),
+  criteriaFailures: aggregateFailingCriteria(details),
+  countryCount: details.length,
+});
+
+function LoadingAudits() {
+  return (
+    <>
+      <Header />
+      <div className="page-container" style={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '50vh' }}>
+        <Loading description="Loading audit data..." withOverlay={false} />
+      </div>
+    </>
+  );
+}
+
+// useSearchParams needs a Suspense boundary to be statically exported
+export default function CommonAuditsPage() {
+  return (
+    <Suspense fallback={<LoadingAudits />}>
+      <CommonAuditsView />
+    </Suspense>
+  );
+}
+
+function CommonAuditsView() {
+  const { months, month, formFactor, data, loading, error, updateView } = useMonthDetails(
+    summarizeAudits,
+    'Failed to load audit data'
+  );
+  const [category, setCategory] = useState<keyof CategorizedAudits | 'all'>('all');
+  const [recommendations, setRecommendations] = useState<RecommendationCatalog>({});
+
+  useEffect(() => {
+    let ignore = false;
+    fetchRecommendations().then((catalog) => {
+      if (!ignore) {
+        setRecommendations(catalog);
+      }
+    });
+    return () => {
+      ignore = true;
+    };
+  }, []);
+
+  if (loading) {
+    return <LoadingAudits />;
+  }
+
+  if (error || !month || !data) {
+    return (
+      <>
+        <Header />
+        <div className="page-container">
+          <h1>Error loading data</h1>
+          <p>{error || 'No data available'}</p>
+        </div>
+      </>
+    );
+  }
+
+  const { failures, criteriaFailures, countryCount } = data;
+  const baseUrl = process.env.NODE_ENV === 'production' ? '/gov-web-performance' : '';
+  const visibleFailures = category === 'all'
+    ? failures
+    : failures.filter((failure) => failure.category === category);
+
+  const headers = [
+    { key: 'title', header: 'Audit' },
+    { key: 'category', header: 'Category' },
+    { key: 'countryCount', header: 'Countries failing' },
+    { key: 'severity', header: 'Average severity' },
+    { key: 'weight', header: 'Average weight' },
+  ];
+
+  const rows = visibleFailures.map((failure) => ({
+    id: `${failure.category}:${failure.id}`,
+    title: failure.title,
+    category: RANKING_METRIC_LABELS[failure.category],
+    countryCount: failure.countries.length,
+    severity: failure.averageSeverity,
+    weight: failure.averageWeight,
+  }));
+
+  return (
+    <>
+      <Header />
+      <main className="page-container">
+        <Grid>
+          <Column lg={16} md={8} sm={4}>
+            <div style={{ marginBottom: '2rem' }}>
+              <h1 style={{ fontSize: '2.5rem', fontWeight: 700, marginBottom: '1rem' }}>
+                Most common failing audits
+              </h1>
+              <p style={{ fontSize: '1.125rem', color: 'var(--cds-text-secondary)', maxWidth: '800px' }}>
+                Lighthouse audits that fail on the most government websites, so that coordinated guidance can
+                target the most widespread problems. Expand an audit to see the affected countries and how to fix it.
+              </p>
+            </div>
+          </Column>
+
+          <Column lg={4} md={4} sm={4}>
+            <Select
+              id="audits-month"
+              labelText="Month"
+              value={month}
+              onChange={(e) => updateView({ month: e.target.value })}
+              style={{ marginBottom: '2rem' }}
+            >
+              {months.map((m) => (
+                <SelectItem key={m} value={m} text={formatMonth(m)} />
+              ))}
+            </Select>
+          </Column>
+
+          <Column lg={4} md={4} sm={4}>
+            <Select
+              id="audits-category"
+              labelText="Category"
+              value={category}
+              onChange={(e) => setCategory(e.target.value as keyof CategorizedAudits | 'all')}
+              style={{ marginBottom: '2rem' }}
+            >
+              <SelectItem value="all" text="All categories" />
+              {SCORE_CATEGORIES.map((key) => (
+                <SelectItem key={key} value={key} text={RANKING_METRIC_LABELS[key]} />
+              ))}
+            </Select>
+          </Column>
+
+          <Column lg={16} md={8} sm={4}>
+            <FormFactorSwitch value={formFactor} onChange={(value) => updateView({ formFactor: value })} />
+            <p style={{ color: 'var(--cds-text-secondary)', marginBottom: '1rem' }}>
+              {visibleFailures.length} failing audits across {countryCount} audited countries
+            </p>
+          </Column>
+
+          <Column lg={16} md={8} sm={4}>
+            <DataTable rows={rows} headers={headers}>
+              {({ rows, headers, getTableProps, getHeaderProps, getRowProps, getExpandHeaderProps }: any) => (
+                <TableContainer>
+                  <Table {...getTableProps()}>
+                    <TableHead>
+                      <TableRow>
+                        <TableExpandHeader {...getExpandHeaderProps()} />
+                        {headers.map((header: any) => (
+                          <TableHeader {...getHeaderProps({ header })} key={header.key}>
+                            {header.header}
+                          </TableHeader>
+                        ))}
+                      </TableRow>
+                    </TableHead>
+                    <TableBody>
+                      {rows.map((row: any) => {
+                        const failure = visibleFailures.find((f) => `${f.category}:${f.id}` === row.id)!;
+                        const recommendation = getAuditRecommendation(recommendations, failure);
+
+                        return (
+                          <Fragment key={row.id}>
+                            <TableExpandRow {...getRowProps({ row })}>
+                              {row.cells.map((cell: any) => {
+                                if (cell.info.header === 'title') {
+                                  return (
+                                    <TableCell key={cell.id}>
+                                      <strong>{cell.value}</strong>
+                                      <div style={{ fontSize: '0.75rem', color: 'var(--cds-text-secondary)' }}>
+                                        {failure.id}
+                                      </div>
+                                    </TableCell>
+                                  );
+                                }
+                                if (cell.info.header === 'countryCount') {
+                                  return (
+                                    <TableCell key={cell.id}>
+                                      <strong>{cell.value}</strong> / {countryCount}
+                                    </TableCell>
+                                  );
+                                }
+                                if (cell.info.header === 'severity') {
+                                  const label = getSeverityLabel(cell.value);
+                                  return (
+                                    <TableCell key={cell.id}>
+                                      <Tag type={SEVERITY_TAG_TYPES[label]} size="sm">{label}</Tag> {cell.value}
+                                    </TableCell>
+                                  );
+                                }
+                                return <TableCell key={cell.id}>{cell.value}</TableCell>;
+                              })}
+                            </TableExpandRow>
+                            {row.isExpanded && (
+                              <TableExpandedRow colSpan={headers.length + 1}>
+                                <div style={{ padding: '1rem 0' }}>
+                                  <h4 style={{ fontSize: '0.875rem', fontWeight: 600, marginBottom: '0.5rem' }}>
+                                    Affected countries
+                                  </h4>
+                                  <p style={{ lineHeight: 1.8, marginBottom: '1rem' }}>
+                                    {failure.countries.map((country, i) => (
+                                      <span key={country.tld}>
+                                        <Link href={`${baseUrl}/country/${country.tld}/${month}`}>{country.country}</Link>
+                                        {i < failure.countries.length - 1 && ', '}
+                                      </span>
+                                    ))}
+                                  </p>
+                                  <h4 style={{ fontSize: '0.875rem', fontWeight: 600, marginBottom: '0.5rem' }}>
+                                    💡 How to fix this
+                                  </h4>
+                                  <ul style={{ marginLeft: '1.25rem', lineHeight: 1.6, marginBottom: '1rem' }}>
+                                    {recommendation.tips.map((tip, i) => (
+                                      <li key={i}>{tip}</li>
+                                    ))}
+                                  </ul>
+                                  <div style={{ display: 'flex', gap: '1rem', flexWrap: 'wrap' }}>
+                                    {recommendation.resources.map((resource, i) => (
+                                      <Link
+                                        key={i}
+                                        href={resource.url}
+                                        target="_blank"
+                                        rel="noopener noreferrer"
+                                        style={{ display: 'flex', alignItems: 'center', gap: '0.25rem' }}
+                                      >
+                                        {resource.label} <Launch size={16} />
+                                      </Link>
+                                    ))}
+                                  </div>
+                                </div>
+                              </TableExpandedRow>
+                            )}
+                          </Fragment>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </TableContainer>
+              )}
+            </DataTable>
+          </Column>
+
+          {(category === 'all' || category === 'accessibility') && criteriaFailures.length > 0 && (
+            <Column lg={16} md={8} sm={4}>
+              <h2 style={{ fontSize: '1.5rem', fontWeight: 600, marginTop: '3rem', marginBottom: '0.5rem' }}>
+                Most failed WCAG 2.2 success criteria
+              </h2>
+              <p style={{ color: 'var(--cds-text-secondary)', marginBottom: '1rem', maxWidth: '800px' }}>
+                Failing accessibility audits mapped to the success criteria they test. A country counts once per
+                criterion, however many of its audits fail it.
+              </p>
+              <TableContainer>
+                <Table size="md">
+                  <TableHead>
+                    <TableRow>
+                      <TableHeader>Success criterion</TableHeader>
+                      <TableHeader>Level</TableHeader>
+                      <TableHeader>Principle</TableHeader>
+                      <TableHeader>Countries failing</TableHeader>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {criteriaFailures.map(({ criterion, countries }) => (
+                      <TableRow key={criterion.id}>
+                        <TableCell>
+                          <strong>{criterion.id} {criterion.title}</strong>
+                          <div style={{ fontSize: '0.75rem', marginTop: '0.25rem' }}>
+                            {countries.map((country, i) => (
+                              <span key={country.tld}>
+                                <Link href={`${baseUrl}/country/${country.tld}/${month}`} size="sm">{country.country}</Link>
+                                {i < countries.length - 1 && ', '}
+                              </span>
+                            ))}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <Tag type={WCAG_LEVEL_TAG_TYPES[criterion.level]} size="sm">{criterion.level}</Tag>
+                        </TableCell>
+                        <TableCell>{WCAG_PRINCIPLE_LABELS[criterion.principle]}</TableCell>
+                        <TableCell>
+                          <strong>{countries.length}</strong> / {countryCount}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            </Column>
+          )}
+        </Grid>
+      </main>
+    </>
+  );
+}
@@ -1,44 +1,89 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { Suspense, useEffect, useState } from 'react';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
 import {
   Grid,
   Column,
   Loading,
   MultiSelect,
   Tile,
+  Select,
+  SelectItem,
+  Button,
 } from '@carbon/react';
 import { RadarChart } from '@carbon/charts-react';
 import Header from '@/components/Header';
 import MetricCard from '@/components/MetricCard';
-import { Country, MonthlyReport, CountryReport } from '@/types';
-import { fetchCountries, fetchLatestReport } from '@/utils/dataLoader';
+import FormFactorSwitch from '@/components/FormFactorSwitch';
+import CountryComparisonChart from '@/components/CountryComparisonChart';
+import AuditComparison from '@/components/AuditComparison';
+import ExportButtons from '@/components/ExportButtons';
+import { Country, MonthlyReport, CountryReport, FormFactor, CountryGroup, RankingMetric, CountryHistoricalData } from '@/types';
+import {
+  fetchCountries,
+  fetchReportManifest,
+  fetchAllReports,
+  selectFormFactor,
+  calculateRankings,
+  getCountryHistoricalData,
+  getMetricScore,
+  formatMonth,
+  FORM_FACTORS,
+  DEFAULT_FORM_FACTOR,
+  RANKING_METRICS,
+  RANKING_METRIC_LABELS,
+} from '@/utils/dataLoader';
+import { isAuditSuccessful, getAuditFailureReason, getAuditStatus } from '@/utils/auditStatus';
+import { calculateCompositeScore } from '@/utils/compositeIndex';
+import { historyToRows } from '@/utils/export';
+import { COUNTRY_GROUPS, COUNTRY_GROUP_LABELS, getGroupMembers } from '@/utils/countryGroups';
 
+function LoadingCompare() {
+  return (
+    <>
+      <Header />
+      <div className="page-container" style={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '50vh' }}>
+        <Loading description="Loading comparison data..." withOverlay={false} />
+      </div>
+    </>
+  );
+}
+
+// useSearchParams needs a Suspense boundary to be statically exported
 export default function ComparePage() {
+  return (
+    <Suspense fallback={<LoadingCompare />}>
+      <CompareView />
+    </Suspense>
+  );
+}
+
+function CompareView() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
   const [countries, setCountries] = useState<Country[]>([]);
-  const [latestReport, setLatestReport] = useState<MonthlyReport | null>(null);
-  const [selectedCountries, setSelectedCountries] = useState<string[]>([]);
+  const [reports, setReports] = useState<MonthlyReport[]>([]);
+  const [months, setMonths] = useState<string[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
     async function loadData() {
       try {
-        const [countriesData, report] = await Promise.all([
+        const [countriesData, manifest, allReports] = await Promise.all([
           fetchCountries(),
-          fetchLatestReport(),
+          fetchReportManifest(),
+          fetchAllReports(),
         ]);
         setCountries(countriesData);
-        setLatestReport(report);
-
-        // Pre-select first 3 countries for demo
-        if (countriesData.length >= 3) {
-          setSelectedCountries([
-            countriesData[10].tld,
-            countriesData[20].tld,
-            countriesData[22].tld,
-          ]);
-        }
+        setReports(allReports.sort((a, b) => b.month.localeCompare(a.month)));
+        setMonths(
+          manifest.reports
+            .map(({ month }) => month)
+            .filter((month) => allReports.some((report) => report.month === month))
+        );
       } catch (err) {
         setError('Failed to load data');
         console.error(err);
@@ -50,17 +95,10 @@ export default function ComparePage() {
   }, []);
 
   if (loading) {
-    return (
-      <>
-        <Header />
-        <div className="page-container" style={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '50vh' }}>
-          <Loading description="Loading comparison data..." withOverlay={false} />
-        </div>
-      </>
-    );
+    return <LoadingCompare />;
   }
 
-  if (error || !latestReport) {
+  if (error || reports.length === 0) {
     return (
       <>
         <Header />
@@ -72,17 +110,68 @@ export default function ComparePage() {
     );
   }
 
-  const countryItems = countries.map(c => ({
+  // The selection is read from the URL so that a comparison can be shared and survives reloads
+  const monthParam = searchParams.get('month');
+  const month = monthParam && months.includes(monthParam) ? monthParam : reports[0].month;
+  const metricParam = searchParams.get('metric') as RankingMetric | null;
+  const metric = metricParam && RANKING_METRICS.includes(metricParam) ? metricParam : 'overall';
+  const formFactorParam = searchParams.get('formFactor') as FormFactor | null;
+  const formFactor = formFactorParam && FORM_FACTORS.includes(formFactorParam) ? formFactorParam : DEFAULT_FORM_FACTOR;
+  const groupParam = searchParams.get('group') as CountryGroup | null;
+  const group = groupParam && COUNTRY_GROUPS.includes(groupParam) ? groupParam : null;
+
+  const updateView = (changes: Record<string, string>) => {
+    const params = new URLSearchParams(searchParams.toString());
+    Object.entries(changes).forEach(([key, value]) => params.set(key, value));
+    router.replace(`${pathname}?${params.toString()}`, { scroll: false });
+  };
+  const setSelectedCountries = (tlds: string[]) => updateView({ countries: tlds.join(',') });
+
+  const formFactorReport = selectFormFactor(reports.find((report) => report.month === month)!, formFactor);
+
+  // Without a selection in the URL, start with the three best countries on the overall index
+  const countriesParam = searchParams.get('countries');
+  const selectedCountries = countriesParam !== null
+    ? countriesParam.split(',').filter((tld) => countries.some((c) => c.tld === tld))
+    : calculateRankings(formFactorReport, null, 'overall').rankings
+      .filter((ranking) => ranking.rank !== undefined)
+      .slice(0, 3)
+      .map((ranking) => ranking.tld);
+
+  const groupMembers = group ? getGroupMembers(countries, group) : null;
+  const countryItems = countries.filter(c => !groupMembers || groupMembers.has(c.tld)).map(c => ({
     id: c.tld,
     label: c.name,
   }));
 
   const selectedReports = selectedCountries
-    .map(tld => latestReport.reports.find(r => r.tld === tld))
+    .map(tld => formFactorReport.reports.find(r => r.tld === tld))
     .filter((r): r is CountryReport => r !== undefined);
 
-  // Prepare radar chart data
-  const radarData = selectedReports.flatMap(report => [
+  const formFactorReports = reports.map((report) => selectFormFactor(report, formFactor));
+  const histories = selectedCountries
+    .map((tld) => getCountryHistoricalData(formFactorReports, tld))
+    .filter((history): history is CountryHistoricalData => history !== null);
+
+  // Failed audits have no scores, so only their status is exported
+  const scoreRows = selectedReports.map(report => {
+    const succeeded = isAuditSuccessful(report);
+    return {
+      country: report.country,
+      tld: report.tld,
+      month,
+      formFactor,
+      status: getAuditStatus(report),
+      performance: succeeded ? report.metrics.performance : null,
+      accessibility: succeeded ? report.metrics.accessibility : null,
+      bestPractices: succeeded ? report.metrics.bestPractices : null,
+      seo: succeeded ? report.metrics.seo : null,
+      overall: succeeded ? calculateCompositeScore(report.metrics) : null,
+    };
+  });
+
+  // Prepare radar chart data (failed audits have no scores to plot)
+  const radarData = selectedReports.filter(isAuditSuccessful).flatMap(report => [
     { country: report.country, metric: 'Performance', value: report.metrics.performance },
     { country: report.country, metric: 'Accessibility', value: report.metrics.accessibility },
     { country: report.country, metric: 'Best Practices', value: report.metrics.bestPractices },
@@ -91,7 +180,7 @@ export default function ComparePage() {
   ]);
 
   const radarOptions = {
-    title: 'Overall Metrics Comparison',
+    title: `Metrics comparison, ${formatMonth(month)}`,
     radar: {
       axes: {
         angle: 'metric',
@@ -116,10 +205,45 @@ export default function ComparePage() {
               </h1>
               <p style={{ fontSize: '1.125rem', color: 'var(--cds-text-secondary)', marginBottom: '2rem' }}>
                 Select multiple countries to compare their performance and accessibility metrics side by side.
+                The selection is kept in the page address, so a comparison can be bookmarked or shared.
               </p>
             </div>
           </Column>
 
+          <Column lg={4} md={8} sm={4}>
+            <div style={{ marginBottom: '2rem' }}>
+              <Select
+                id="country-group"
+                labelText="Filter by group"
+                value={group ?? 'all'}
+                onChange={(e) => {
+                  const value = e.target.value === 'all' ? null : e.target.value as CountryGroup;
+                  // Keep only selected countries that belong to the new group
+                  const members = value ? getGroupMembers(countries, value) : null;
+                  updateView({
+                    group: e.target.value,
+                    countries: selectedCountries.filter(tld => !members || members.has(tld)).join(','),
+                  });
+                }}
+              >
+                <SelectItem value="all" text="All countries" />
+                {COUNTRY_GROUPS.map(countryGroup => (
+                  <SelectItem key={countryGroup} value={countryGroup} text={COUNTRY_GROUP_LABELS[countryGroup]} />
+                ))}
+              </Select>
+              {groupMembers && (
+                <Button
+                  kind="ghost"
+                  size="sm"
+                  style={{ marginTop: '0.5rem' }}
+                  onClick={() => setSelectedCountries([...groupMembers])}
+                >
+                  Compare all {groupMembers.size} countries
+                </Button>
+              )}
+            </div>
+          </Column>
+
           <Column lg={8} md={8} sm={4}>
             <div style={{ marginBottom: '2rem' }}>
               <MultiSelect
@@ -136,50 +260,128 @@ export default function ComparePage() {
             </div>
           </Column>
 
+          <Column lg={4} md={4} sm={4}>
+            <Select
+              id="compare-month"
+              labelText="Month"
+              value={month}
+              onChange={(e) => updateView({ month: e.target.value })}
+              style={{ marginBottom: '2rem' }}
+            >
+              {months.map((m) => (
+                <SelectItem key={m} value={m} text={formatMonth(m)} />
+              ))}
+            </Select>
+          </Column>
+
+          <Column lg={16} md={8} sm={4}>
+            <FormFactorSwitch value={formFactor} onChange={(value) => updateView({ formFactor: value })} />
+          </Column>
+
           {selectedReports.length > 0 && (
             <>
+              <Column lg={16} md={8} sm={4}>
+                <ExportButtons
+                  label={`Download scores for ${formatMonth(month)}`}
+                  filename={`compare-${month}-${formFactor}`}
+                  rows={scoreRows}
+                />
+                <ExportButtons
+                  label="Download history"
+                  filename={`compare-history-${formFactor}`}
+                  rows={histories.flatMap(historyToRows)}
+                  json={histories}
+                />
+              </Column>
+
               <Column lg={16} md={8} sm={4}>
                 <div className="chart-container">
                   <RadarChart data={radarData} options={radarOptions} />
                 </div>
               </Column>
 
+              {histories.length > 0 && (
+                <>
+                  <Column lg={4} md={4} sm={4}>
+                    <Select
+                      id="compare-metric"
+                      labelText="Metric over time"
+                      value={metric}
+                      onChange={(e) => updateView({ metric: e.target.value })}
+                      style={{ marginBottom: '1rem' }}
+                    >
+                      {RANKING_METRICS.map((m) => (
+                        <SelectItem key={m} value={m} text={RANKING_METRIC_LABELS[m]} />
+                      ))}
+                    </Select>
+                  </Column>
+                  <Column lg={16} md={8} sm={4}>
+                    <CountryComparisonChart histories={histories} metric={metric} months={[...months].reverse()} />
+                  </Column>
+                </>
+              )}
+
               {selectedReports.map(report => (
                 <Column lg={16} md={8} sm={4} key={report.tld}>
                   <Tile style={{ marginBottom: '2rem' }}>
                     <h2 style={{ fontSize: '1.5rem', fontWeight: 600 }}>
                       {report.country}
                     </h2>
-                    <Grid condensed>
-                      <Column lg={3} md={4} sm={4}>
-                        <MetricCard
-                          title="Performance"
-                          score={report.metrics.performance}
-                        />
-                      </Column>
-                      <Column lg={3} md={4} sm={4}>
-                        <MetricCard
-                          title="Accessibility"
-                          score={report.metrics.accessibility}
-                        />
-                      </Column>
-                      <Column lg={3} md={4} sm={4}>
-                        <MetricCard
-                          title="Best Practices"
-                          score={report.metrics.bestPractices}
-                        />
-                      </Column>
-                      <Column lg={3} md={4} sm={4}>
-                        <MetricCard
-                          title="SEO"
-                          score={report.metrics.seo}
-                        />
-                      </Column>
-
-                    </Grid>
+                    {isAuditSuccessful(report) ? (
+                      <Grid condensed>
+                        <Column lg={3} md={4} sm={4}>
+                          <MetricCard
+                            title="Performance"
+                            score={getMetricScore(report, 'performance')}
+                            variance={report.metrics.variance?.performance}
+                            runs={report.metrics.runs}
+                          />
+                        </Column>
+                        <Column lg={3} md={4} sm={4}>
+                          <MetricCard
+                            title="Accessibility"
+                            score={getMetricScore(report, 'accessibility')}
+                            variance={report.metrics.variance?.accessibility}
+                            runs={report.metrics.runs}
+                          />
+                        </Column>
+                        <Column lg={3} md={4} sm={4}>
+                          <MetricCard
+                            title="Best Practices"
+                            score={getMetricScore(report, 'bestPractices')}
+                            variance={report.metrics.variance?.bestPractices}
+                            runs={report.metrics.runs}
+                          />
+                        </Column>
+                        <Column lg={3} md={4} sm={4}>
+                          <MetricCard
+                            title="SEO"
+                            score={getMetricScore(report, 'seo')}
+                            variance={report.metrics.variance?.seo}
+                            runs={report.metrics.runs}
+                          />
+                        </Column>
+
+                      </Grid>
+                    ) : (
+                      <p style={{ color: 'var(--cds-text-secondary)', marginTop: '1rem' }}>
+                        {getAuditFailureReason(report)}
+                      </p>
+                    )}
                   </Tile>
                 </Column>
               ))}
+
+              <Column lg={16} md={8} sm={4}>
+                <h2 style={{ fontSize: '1.75rem', fontWeight: 600, marginTop: '1rem', marginBottom: '1.5rem' }}>
+                  Detailed comparison
+                </h2>
+                <AuditComparison
+                  month={month}
+                  formFactor={formFactor}
+                  tlds={selectedReports.map(report => report.tld)}
+                />
+              </Column>
             </>
           )}
 
@@ -187,7 +389,9 @@ export default function ComparePage() {
             <Column lg={16} md={8} sm={4}>
               <Tile style={{ padding: '3rem', textAlign: 'center' }}>
                 <p style={{ fontSize: '1.125rem', color: 'var(--cds-text-secondary)' }}>
-                  Select countries from the dropdown above to start comparing their metrics.
+                  {selectedCountries.length > 0
+                    ? `No ${formFactor} audits are available for the selected countries yet.`
+                    : 'Select countries from the dropdown above to start comparing their metrics.'}
                 </p>
               </Tile>
             </Column>
@@ -12,54 +12,146 @@ import {
   Accordion,
   AccordionItem,
   Link,
+  Table,
+  TableHead,
+  TableRow,
+  TableHeader,
+  TableBody,
+  TableCell,
+  TableContainer,
 } from '@carbon/react';
 import { CheckmarkFilled, WarningFilled, ErrorFilled, Launch, Code } from '@carbon/icons-react';
 import Header from '@/components/Header';
 import MetricCard from '@/components/MetricCard';
-import { MonthlyReport, CountryReport, AuditIssue } from '@/types';
-import { getAuditRecommendation } from '@/utils/auditRecommendations';
+import FormFactorSwitch from '@/components/FormFactorSwitch';
+import CountryTrendCharts from '@/components/CountryTrendCharts';
+import MonthNavigation from '@/components/MonthNavigation';
+import AuditChanges from '@/components/AuditChanges';
+import ExportButtons from '@/components/ExportButtons';
+import BadgeEmbed from '@/components/BadgeEmbed';
+import VitalRatingTag from '@/components/VitalRatingTag';
+import PageWeightChart from '@/components/PageWeightChart';
+import AffectedElements from '@/components/AffectedElements';
+import WcagConformance from '@/components/WcagConformance';
+import FixPlan from '@/components/FixPlan';
+import Filmstrip from '@/components/Filmstrip';
+import { MonthlyReport, CountryReport, AuditIssue, FormFactor, CountryHistoricalData, RankingMetric, AuditDiff } from '@/types';
+import { RecommendationCatalog, getAuditRecommendation } from '@/utils/auditRecommendations';
+import { DEFAULT_FORM_FACTOR, SCORE_CATEGORIES, formatBytes, formatMonth, formatTiming, getCategoryScores, getCountryRankings } from '@/utils/dataLoader';
+import { historyToRows } from '@/utils/export';
+import { isAuditSuccessful, getAuditFailureReason } from '@/utils/auditStatus';
+import { diffAudits } from '@/utils/auditDiff';
+import { getFixPlan } from '@/utils/fixPlan';
+import { calculateCompositeScore } from '@/utils/compositeIndex';
+import { WCAG_LEVEL_TAG_TYPES, getAuditCriteria } from '@/utils/wcag';
+import { POLICY_CATEGORIES, getThirdPartyCategoryLabel } from '@/utils/thirdParties';
+import { TIMING_METRICS, assessCoreWebVitals, classifyVital, isVitalMetric, normalizeTiming } from '@/utils/webVitals';
+
+interface CountryAuditClientProps {
+  tld: string;
+  month?: string; // Defaults to the latest month in the manifest
+}
 
-export default function CountryAuditClient({ tld }: { tld: string }) {
+export default function CountryAuditClient({ tld, month }: CountryAuditClientProps) {
 
   const [latestReport, setLatestReport] = useState<MonthlyReport | null>(null);
   const [countryReport, setCountryReport] = useState<CountryReport | null>(null);
+  const [history, setHistory] = useState<CountryHistoricalData | null>(null);
+  const [months, setMonths] = useState<string[]>([]);
+  const [auditDiff, setAuditDiff] = useState<AuditDiff | null>(null);
+  const [badgeReport, setBadgeReport] = useState<MonthlyReport | null>(null);
+  const [recommendations, setRecommendations] = useState<RecommendationCatalog>({});
+  const [formFactor, setFormFactor] = useState<FormFactor>(DEFAULT_FORM_FACTOR);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
+    // Drop the responses of a month or form factor that has since changed
+    let ignore = false;
+
     async function loadData() {
+      setLoading(true);
+      setError(null);
       try {
         // Import functions dynamically to avoid circular dependencies
-        const { getLatestMonth, fetchCountryDetail } = await import('@/utils/dataLoader');
-
-        const latestMonth = await getLatestMonth();
-        if (!latestMonth) {
+        const {
+          getLatestMonth,
+          fetchCountryDetail,
+          fetchAllReports,
+          selectFormFactor,
+          getCountryHistoricalData,
+          fetchRecommendations,
+        } = await import('@/utils/dataLoader');
+
+        const reportMonth = month ?? await getLatestMonth();
+        if (ignore) return;
+        if (!reportMonth) {
           setError('No report data available');
           return;
         }
 
-        // Fetch detailed country data from individual file
-        const countryDetail = await fetchCountryDetail(latestMonth, tld);
+        // Fetch detailed country data from individual file, and the summaries for its history
+        const [countryDetail, allReports, catalog] = await Promise.all([
+          fetchCountryDetail(reportMonth, tld, formFactor),
+          fetchAllReports(),
+          fetchRecommendations(),
+        ]);
+        if (ignore) return;
+        setRecommendations(catalog);
+        const sortedMonths = allReports.map((report) => report.month).sort();
+        setMonths(sortedMonths);
+        // Badges always show the latest month
+        const latestSummary = allReports.find((report) => report.month === sortedMonths[sortedMonths.length - 1]);
+        setBadgeReport(latestSummary ? selectFormFactor(latestSummary, formFactor) : null);
+        setHistory(getCountryHistoricalData(
+          allReports.map((report) => selectFormFactor(report, formFactor)),
+          tld
+        ));
+        // Compare this month's failing audits with the previous month's detail file
+        const previousMonth = sortedMonths[sortedMonths.indexOf(reportMonth) - 1];
+        const previousDetail = countryDetail?.metrics.audits && previousMonth
+          ? await fetchCountryDetail(previousMonth, tld, formFactor)
+          : null;
+        if (ignore) return;
+        setAuditDiff(
+          countryDetail?.metrics.audits && previousDetail?.metrics.audits
+            ? diffAudits(
+                countryDetail.metrics.audits,
+                previousDetail.metrics.audits,
+                previousMonth,
+                countryDetail.metrics.passedAudits
+              )
+            : null
+        );
+
         if (!countryDetail) {
-          setError('Country not found or audit data not available');
+          setError(`Country not found or ${formFactor} audit data not available`);
         } else {
           setCountryReport(countryDetail);
           // Set a mock report with just the date for display
           setLatestReport({
-            month: latestMonth,
+            month: reportMonth,
             generatedAt: countryDetail.timestamp,
             reports: [countryDetail]
           });
         }
       } catch (err) {
-        setError('Failed to load data');
+        if (!ignore) {
+          setError('Failed to load data');
+        }
         console.error(err);
       } finally {
-        setLoading(false);
+        if (!ignore) {
+          setLoading(false);
+        }
       }
     }
     loadData();
-  }, [tld]);
+
+    return () => {
+      ignore = true;
+    };
+  }, [tld, month, formFactor]);
 
   if (loading) {
     return (
@@ -78,7 +170,8 @@ export default function CountryAuditClient({ tld }: { tld: string }) {
         <Header />
         <div className="page-container">
           <h1>Error loading data</h1>
-          <p>{error || 'No data available'}</p>
+          <p style={{ marginBottom: '2rem' }}>{error || 'No data available'}</p>
+          <FormFactorSwitch value={formFactor} onChange={setFormFactor} />
         </div>
       </>
     );
@@ -103,15 +196,6 @@ export default function CountryAuditClient({ tld }: { tld: string }) {
     }
   };
 
-  // Helper function to format timing metrics
-  const formatTiming = (value: number | null, unit: string = 'ms'): string => {
-    if (value === null) return 'N/A';
-    if (unit === 'ms') {
-      return value > 1000 ? `${(value / 1000).toFixed(2)} s` : `${Math.round(value)} ms`;
-    }
-    return `${value.toFixed(3)}`;
-  };
-
   // Render audit issues for a category
   const renderAuditSection = (
     categoryName: string,
@@ -162,6 +246,17 @@ export default function CountryAuditClient({ tld }: { tld: string }) {
                   dangerouslySetInnerHTML={{ __html: audit.description }}
                 />
 
+                {getAuditCriteria(audit.id).length > 0 && (
+                  <p style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', flexWrap: 'wrap', marginBottom: '1.5rem' }}>
+                    <strong>WCAG 2.2:</strong>
+                    {getAuditCriteria(audit.id).map((criterion) => (
+                      <Tag key={criterion.id} type={WCAG_LEVEL_TAG_TYPES[criterion.level]} size="sm">
+                        {criterion.id} {criterion.title} ({criterion.level})
+                      </Tag>
+                    ))}
+                  </p>
+                )}
+
                 {audit.numericValue !== null && (
                   <div style={{
                     padding: '0.75rem',
@@ -174,39 +269,50 @@ export default function CountryAuditClient({ tld }: { tld: string }) {
                   </div>
                 )}
 
+                {audit.elements && audit.elements.length > 0 && (
+                  <AffectedElements elements={audit.elements} elementCount={audit.elementCount ?? audit.elements.length} />
+                )}
+
                 {/* Get recommendations for this audit */}
                 {(() => {
-                  const recommendation = getAuditRecommendation(audit.id);
+                  const recommendation = getAuditRecommendation(recommendations, audit);
                   return (
                     <>
-                      {/* Recommendations Section */}
-                      <div style={{
-                        marginTop: '1.5rem',
-                        padding: '1rem',
-                        backgroundColor: 'var(--cds-layer-accent)',
-                        borderRadius: '4px',
-                        borderLeft: '3px solid var(--cds-border-interactive)'
-                      }}>
-                        <h4 style={{
-                          fontSize: '0.875rem',
-                          fontWeight: 600,
-                          marginBottom: '0.75rem',
-                          display: 'flex',
-                          alignItems: 'center',
-                          gap: '0.5rem'
+                      {/* Recommendations Section, only for curated content as the description is shown above */}
+                      {recommendation.curated && (
+                        <div style={{
+                          marginTop: '1.5rem',
+                          padding: '1rem',
+                          backgroundColor: 'var(--cds-layer-accent)',
+                          borderRadius: '4px',
+                          borderLeft: '3px solid var(--cds-border-interactive)'
                         }}>
-                          💡 How to fix this
-                        </h4>
-                        <ul style={{
-                          marginLeft: '1.25rem',
-                          lineHeight: 1.6,
-                          color: 'var(--cds-text-primary)'
-                        }}>
-                          {recommendation.tips.map((tip, i) => (
-                            <li key={i} style={{ marginBottom: '0.5rem' }}>{tip}</li>
-                          ))}
-                        </ul>
-                      </div>
+                          <h4 style={{
+                            fontSize: '0.875rem',
+                            fontWeight: 600,
+                            marginBottom: '0.75rem',
+                            display: 'flex',
+                            alignItems: 'center',
+                            gap: '0.5rem'
+                          }}>
+                            💡 How to fix this
+                          </h4>
+                          <ul style={{
+                            marginLeft: '1.25rem',
+                            lineHeight: 1.6,
+                            color: 'var(--cds-text-primary)'
+                          }}>
+                            {recommendation.tips.map((tip, i) => (
+                              <li key={i} style={{ marginBottom: '0.5rem' }}>{tip}</li>
+                            ))}
+                          </ul>
+                          {recommendation.impact && (
+                            <p style={{ fontSize: '0.875rem', color: 'var(--cds-text-secondary)', marginTop: '0.5rem' }}>
+                              <strong>Expected impact:</strong> {recommendation.impact}
+                            </p>
+                          )}
+                        </div>
+                      )}
 
                       {/* Code Example */}
                       {recommendation.codeExample && (
@@ -295,14 +401,41 @@ export default function CountryAuditClient({ tld }: { tld: string }) {
   };
 
   const metrics = countryReport.metrics;
+  const scores = getCategoryScores(countryReport);
   const hasAuditData = metrics.audits !== undefined;
-  const hasMeaningfulScores = [
-    metrics.performance,
-    metrics.accessibility,
-    metrics.bestPractices,
-    metrics.seo,
-  ].some((score) => score > 0);
-  const canShowDetailedAuditResults = hasAuditData && hasMeaningfulScores;
+  const auditSucceeded = isAuditSuccessful(countryReport);
+  const monthHref = (reportMonth: string) => `${baseUrl}/country/${tld}/${reportMonth}`;
+
+  // Month-over-month change is only shown when the previous month was scored too
+  const previousMonth = months[months.indexOf(latestReport.month) - 1];
+  const getPreviousScore = (metric: RankingMetric): number | undefined =>
+    history?.[metric].find((point) => point.month === previousMonth && point.rank !== undefined)?.value;
+  const overallScore = auditSucceeded ? calculateCompositeScore(metrics) : null;
+  const overallRank = history?.overall.find((point) => point.month === latestReport.month)?.rank;
+  const canShowDetailedAuditResults = hasAuditData && auditSucceeded;
+  const timing = metrics.timing ? normalizeTiming(metrics.timing) : null;
+  const coreWebVitals = timing ? assessCoreWebVitals(timing) : null;
+  const fixPlan = canShowDetailedAuditResults ? getFixPlan(countryReport) : [];
+  // Lighthouse 13 and later no longer report blocking time per third party
+  const hasThirdPartyBlockingTime = (metrics.thirdParties || []).some((entity) => entity.blockingTime !== null);
+  // Reports from before savings were collected can only rank the non-performance fixes.
+  // Any performance score below 100 has a failing metric audit, which keeps its scoring curve.
+  const missingSavingsData = scores.performance < 100
+    && !(metrics.audits?.performance || []).some((audit) => audit.scoringOptions);
+  const auditIssueRows = SCORE_CATEGORIES.flatMap((category) =>
+    (metrics.audits?.[category] || []).map((audit) => ({
+      category,
+      id: audit.id,
+      title: audit.title,
+      score: audit.score,
+      scoreDisplayMode: audit.scoreDisplayMode,
+      severity: audit.severity,
+      weight: audit.weight,
+      displayValue: audit.displayValue,
+      numericValue: audit.numericValue,
+      numericUnit: audit.numericUnit,
+    }))
+  );
 
   return (
     <>
@@ -313,12 +446,24 @@ export default function CountryAuditClient({ tld }: { tld: string }) {
             <Breadcrumb style={{ marginBottom: '2rem' }}>
               <BreadcrumbItem href={`${baseUrl}/`}>Home</BreadcrumbItem>
               <BreadcrumbItem href={`${baseUrl}/rankings`}>Rankings</BreadcrumbItem>
-              <BreadcrumbItem isCurrentPage>{countryReport.country}</BreadcrumbItem>
+              {month ? (
+                <>
+                  <BreadcrumbItem href={`${baseUrl}/country/${tld}`}>{countryReport.country}</BreadcrumbItem>
+                  <BreadcrumbItem isCurrentPage>{formatMonth(month)}</BreadcrumbItem>
+                </>
+              ) : (
+                <BreadcrumbItem isCurrentPage>{countryReport.country}</BreadcrumbItem>
+              )}
             </Breadcrumb>
 
             <div style={{ marginBottom: '3rem' }}>
-              <h1 style={{ fontSize: '2.5rem', fontWeight: 700, marginBottom: '0.5rem' }}>
+              <h1 style={{ fontSize: '2.5rem', fontWeight: 700, marginBottom: '0.5rem', display: 'flex', alignItems: 'center', gap: '1rem', flexWrap: 'wrap' }}>
                 {countryReport.country}
+                {overallRank !== undefined && (
+                  <Tag type="blue" size="lg" title="Rank on the overall index for this month">
+                    #{overallRank} overall
+                  </Tag>
+                )}
               </h1>
               <p style={{ fontSize: '1rem', color: 'var(--cds-text-secondary)', marginBottom: '0.5rem' }}>
                 <a target='_blank' rel='noopener noreferrer' href={countryReport.url}>
@@ -326,9 +471,17 @@ export default function CountryAuditClient({ tld }: { tld: string }) {
                 </a>
               </p>
               <p style={{ fontSize: '0.875rem', color: 'var(--cds-text-secondary)' }}>
-                Last audited: {reportDate}
+                {month ? 'Audited' : 'Last audited'}: {reportDate}
+                {month ? (
+                  <> · <Link href={`${baseUrl}/country/${tld}`}>View latest report</Link></>
+                ) : (
+                  <> · <Link href={monthHref(latestReport.month)}>Permanent link to this month</Link></>
+                )}
+                {' · '}<Link href={`${baseUrl}/feeds/${tld}.xml`}>Subscribe to updates (Atom feed)</Link>
               </p>
             </div>
+            <MonthNavigation months={months} currentMonth={latestReport.month} getHref={monthHref} />
+            <FormFactorSwitch value={formFactor} onChange={setFormFactor} />
           </Column>
 
           {/* Metric Cards */}
@@ -338,114 +491,309 @@ export default function CountryAuditClient({ tld }: { tld: string }) {
             </h2>
           </Column>
 
-          <Column lg={3} md={4} sm={4}>
-            <MetricCard
-              title="Performance"
-              score={metrics.performance}
-              description="Page load speed and optimization"
-            />
-          </Column>
+          {auditSucceeded ? (
+            <>
+              <Column lg={3} md={4} sm={4}>
+                <MetricCard
+                  title="Performance"
+                  score={scores.performance}
+                  previousScore={getPreviousScore('performance')}
+                  variance={metrics.variance?.performance}
+                  runs={metrics.runs}
+                  description="Page load speed and optimization"
+                />
+              </Column>
 
-          <Column lg={3} md={4} sm={4}>
-            <MetricCard
-              title="Accessibility"
-              score={metrics.accessibility}
-              description="Inclusive design and usability"
-            />
-          </Column>
+              <Column lg={3} md={4} sm={4}>
+                <MetricCard
+                  title="Accessibility"
+                  score={scores.accessibility}
+                  previousScore={getPreviousScore('accessibility')}
+                  variance={metrics.variance?.accessibility}
+                  runs={metrics.runs}
+                  description="Inclusive design and usability"
+                />
+              </Column>
 
-          <Column lg={3} md={4} sm={4}>
-            <MetricCard
-              title="Best Practices"
-              score={metrics.bestPractices}
-              description="Web development standards"
-            />
-          </Column>
+              <Column lg={3} md={4} sm={4}>
+                <MetricCard
+                  title="Best Practices"
+                  score={scores.bestPractices}
+                  previousScore={getPreviousScore('bestPractices')}
+                  variance={metrics.variance?.bestPractices}
+                  runs={metrics.runs}
+                  description="Web development standards"
+                />
+              </Column>
 
-          <Column lg={3} md={4} sm={4}>
-            <MetricCard
-              title="SEO"
-              score={metrics.seo}
-              description="Search engine optimization"
-            />
-          </Column>
+              <Column lg={3} md={4} sm={4}>
+                <MetricCard
+                  title="SEO"
+                  score={scores.seo}
+                  previousScore={getPreviousScore('seo')}
+                  variance={metrics.variance?.seo}
+                  runs={metrics.runs}
+                  description="Search engine optimization"
+                />
+              </Column>
+
+              {overallScore !== null && (
+                <Column lg={4} md={4} sm={4}>
+                  <MetricCard
+                    title="Overall index"
+                    score={overallScore}
+                    previousScore={getPreviousScore('overall')}
+                    description={`Weighted average of the four categories, ranked #${overallRank ?? '–'}`}
+                  />
+                </Column>
+              )}
+            </>
+          ) : (
+            <Column lg={16} md={8} sm={4}>
+              <Tile style={{ padding: '3rem', textAlign: 'center' }}>
+                <ErrorFilled size={32} style={{ color: 'var(--cds-support-error)', marginBottom: '1rem' }} />
+                <p style={{ fontSize: '1.125rem', fontWeight: 600 }}>
+                  {getAuditFailureReason(countryReport)}
+                </p>
+                {countryReport.error && (
+                  <p style={{ color: 'var(--cds-text-secondary)', marginTop: '0.5rem' }}>
+                    <code>{countryReport.error}</code>
+                  </p>
+                )}
+                <p style={{ color: 'var(--cds-text-secondary)', marginTop: '0.5rem' }}>
+                  No scores were recorded for this run, so it is left out of rankings and averages.
+                </p>
+              </Tile>
+            </Column>
+          )}
+
+          {/* Screenshots of the audited run */}
+          {auditSucceeded && metrics.screenshots && (
+            <Column lg={16} md={8} sm={4}>
+              <h2 style={{ fontSize: '1.5rem', fontWeight: 600, marginTop: '3rem', marginBottom: '0.5rem' }}>
+                What Lighthouse saw
+              </h2>
+              <p style={{ color: 'var(--cds-text-secondary)', marginBottom: '1.5rem', maxWidth: '800px' }}>
+                The page as it loaded during the audit. A cookie banner, CAPTCHA or error page here explains
+                scores that look out of place.
+              </p>
+              <Filmstrip screenshots={metrics.screenshots} country={countryReport.country} />
+            </Column>
+          )}
+
+          {/* Score and rank history */}
+          {history && (
+            <Column lg={16} md={8} sm={4}>
+              <h2 style={{ fontSize: '1.5rem', fontWeight: 600, marginTop: '3rem', marginBottom: '1.5rem' }}>
+                Score and rank history
+              </h2>
+              <ExportButtons
+                label="Download history"
+                filename={`${tld}-history-${formFactor}`}
+                rows={historyToRows(history)}
+                json={history}
+              />
+              <CountryTrendCharts history={history} months={months} />
+            </Column>
+          )}
+
+          {/* Embeddable badge */}
+          {badgeReport?.reports.some((report) => report.tld === tld) && (
+            <Column lg={16} md={8} sm={4}>
+              <div style={{ marginTop: '3rem' }}>
+                <Accordion>
+                  <AccordionItem title="Embed this: show your score on your own site">
+                    <BadgeEmbed
+                      tld={tld}
+                      country={countryReport.country}
+                      formFactor={formFactor}
+                      month={badgeReport.month}
+                      rankings={getCountryRankings(badgeReport, tld)}
+                    />
+                  </AccordionItem>
+                </Accordion>
+              </div>
+            </Column>
+          )}
 
           {/* Performance Timing Metrics */}
-          {hasAuditData && metrics.timing && (
+          {hasAuditData && timing && (
             <>
               <Column lg={16} md={8} sm={4}>
-                <h2 style={{ fontSize: '1.5rem', fontWeight: 600, marginTop: '3rem', marginBottom: '1.5rem' }}>
+                <h2 style={{ fontSize: '1.5rem', fontWeight: 600, marginTop: '3rem', marginBottom: '0.5rem' }}>
                   Performance timing metrics
                 </h2>
+                <p style={{ color: 'var(--cds-text-secondary)', marginBottom: '1.5rem', maxWidth: '800px' }}>
+                  Core Web Vitals assessment:{' '}
+                  {coreWebVitals ? <VitalRatingTag rating={coreWebVitals} size="md" /> : 'not available'}
+                  {' '}Ratings use the published Web Vitals thresholds, with Total Blocking Time standing in for
+                  Interaction to Next Paint in this lab test.{' '}
+                  <Link href={`${baseUrl}/vitals?month=${latestReport.month}&formFactor=${formFactor}`}>Compare Web Vitals across countries</Link>
+                </p>
               </Column>
 
-              <Column lg={3} md={4} sm={4}>
-                <Tile>
-                  <div>
-                    <p style={{ fontSize: '0.875rem', fontWeight: 600, marginBottom: '0.5rem', color: 'var(--cds-text-secondary)' }}>
-                      First Contentful Paint
-                    </p>
-                    <p style={{ fontSize: '1.75rem', fontWeight: 600, marginTop: '0.5rem' }}>
-                      {formatTiming(metrics.timing.firstContentfulPaint)}
-                    </p>
-                  </div>
-                </Tile>
-              </Column>
+              {TIMING_METRICS.filter(({ key }) => timing[key] !== undefined).map(({ key, label, unit }) => (
+                <Column key={key} lg={4} md={4} sm={4} style={{ marginBottom: '1rem' }}>
+                  <Tile style={{ height: '100%' }}>
+                    <div>
+                      <p style={{ fontSize: '0.875rem', fontWeight: 600, marginBottom: '0.5rem', color: 'var(--cds-text-secondary)' }}>
+                        {label}
+                      </p>
+                      <p style={{ fontSize: '1.75rem', fontWeight: 600, marginTop: '0.5rem', marginBottom: '0.5rem' }}>
+                        {formatTiming(timing[key] ?? null, unit)}
+                      </p>
+                      {isVitalMetric(key) && (
+                        <VitalRatingTag rating={classifyVital(key, timing[key])} />
+                      )}
+                    </div>
+                  </Tile>
+                </Column>
+              ))}
+            </>
+          )}
 
-              <Column lg={3} md={4} sm={4}>
-                <Tile>
-                  <div>
-                    <p style={{ fontSize: '0.875rem', fontWeight: 600, marginBottom: '0.5rem', color: 'var(--cds-text-secondary)' }}>
-                      Largest Contentful Paint
-                    </p>
-                    <p style={{ fontSize: '1.75rem', fontWeight: 600, marginTop: '0.5rem' }}>
-                      {formatTiming(metrics.timing.largestContentfulPaint)}
-                    </p>
-                  </div>
-                </Tile>
+          {/* Page weight */}
+          {auditSucceeded && metrics.pageWeight && (
+            <>
+              <Column lg={16} md={8} sm={4}>
+                <h2 style={{ fontSize: '1.5rem', fontWeight: 600, marginTop: '3rem', marginBottom: '0.5rem' }}>
+                  Page weight
+                </h2>
+                <p style={{ color: 'var(--cds-text-secondary)', marginBottom: '1.5rem', maxWidth: '800px' }}>
+                  Everything the homepage downloads on first load.{' '}
+                  <Link href={`${baseUrl}/weight?month=${latestReport.month}&formFactor=${formFactor}`}>
+                    See the heaviest homepages
+                  </Link>
+                </p>
               </Column>
 
-              <Column lg={3} md={4} sm={4}>
-                <Tile>
-                  <div>
-                    <p style={{ fontSize: '0.875rem', fontWeight: 600, marginBottom: '0.5rem', color: 'var(--cds-text-secondary)' }}>
-                      Total Blocking Time
-                    </p>
-                    <p style={{ fontSize: '1.75rem', fontWeight: 600, marginTop: '0.5rem' }}>
-                      {formatTiming(metrics.timing.totalBlockingTime)}
-                    </p>
-                  </div>
+              <Column lg={4} md={4} sm={4} style={{ marginBottom: '1rem' }}>
+                <Tile style={{ marginBottom: '1rem' }}>
+                  <p style={{ fontSize: '0.875rem', fontWeight: 600, color: 'var(--cds-text-secondary)' }}>Total transfer size</p>
+                  <p style={{ fontSize: '1.75rem', fontWeight: 600, marginTop: '0.5rem' }}>
+                    {formatBytes(metrics.pageWeight.transferSize)}
+                  </p>
+                </Tile>
+                <Tile style={{ marginBottom: '1rem' }}>
+                  <p style={{ fontSize: '0.875rem', fontWeight: 600, color: 'var(--cds-text-secondary)' }}>Requests</p>
+                  <p style={{ fontSize: '1.75rem', fontWeight: 600, marginTop: '0.5rem' }}>
+                    {metrics.pageWeight.requestCount}
+                  </p>
                 </Tile>
-              </Column>
-
-              <Column lg={3} md={4} sm={4}>
                 <Tile>
-                  <div>
-                    <p style={{ fontSize: '0.875rem', fontWeight: 600, marginBottom: '0.5rem', color: 'var(--cds-text-secondary)' }}>
-                      Speed Index
-                    </p>
-                    <p style={{ fontSize: '1.75rem', fontWeight: 600, marginTop: '0.5rem' }}>
-                      {formatTiming(metrics.timing.speedIndex)}
-                    </p>
-                  </div>
+                  <p style={{ fontSize: '0.875rem', fontWeight: 600, color: 'var(--cds-text-secondary)' }}>From third parties</p>
+                  <p style={{ fontSize: '1.75rem', fontWeight: 600, marginTop: '0.5rem' }}>
+                    {formatBytes(metrics.pageWeight.resources.thirdParty?.transferSize ?? 0)}
+                  </p>
+                  <p style={{ fontSize: '0.875rem', color: 'var(--cds-text-secondary)' }}>
+                    {metrics.pageWeight.resources.thirdParty?.requestCount ?? 0} requests
+                  </p>
                 </Tile>
               </Column>
 
-              <Column lg={4} md={4} sm={4}>
-                <Tile>
-                  <div>
-                    <p style={{ fontSize: '0.875rem', fontWeight: 600, marginBottom: '0.5rem', color: 'var(--cds-text-secondary)' }}>
-                      Cumulative Layout Shift
-                    </p>
-                    <p style={{ fontSize: '1.75rem', fontWeight: 600, marginTop: '0.5rem' }}>
-                      {formatTiming(metrics.timing.cumulativeLayoutShift, '')}
-                    </p>
-                  </div>
-                </Tile>
+              <Column lg={12} md={8} sm={4}>
+                <PageWeightChart pageWeight={metrics.pageWeight} />
               </Column>
             </>
           )}
 
+          {/* Third parties */}
+          {auditSucceeded && metrics.thirdParties && (
+            <Column lg={16} md={8} sm={4}>
+              <h2 style={{ fontSize: '1.5rem', fontWeight: 600, marginTop: '3rem', marginBottom: '0.5rem' }}>
+                Third parties
+              </h2>
+              <p style={{ color: 'var(--cds-text-secondary)', marginBottom: '1.5rem', maxWidth: '800px' }}>
+                Services from other organisations the homepage loads, such as analytics, advertising and social
+                media widgets.{' '}
+                <Link href={`${baseUrl}/third-parties?month=${latestReport.month}&formFactor=${formFactor}`}>
+                  See third parties across all countries
+                </Link>
+              </p>
+              {metrics.thirdParties.length === 0 ? (
+                <p>No third parties were loaded.</p>
+              ) : (
+                <TableContainer>
+                  <Table size="md">
+                    <TableHead>
+                      <TableRow>
+                        <TableHeader>Third party</TableHeader>
+                        <TableHeader>Category</TableHeader>
+                        <TableHeader>Transfer size</TableHeader>
+                        {hasThirdPartyBlockingTime && <TableHeader>Blocking time</TableHeader>}
+                        <TableHeader>Main-thread time</TableHeader>
+                      </TableRow>
+                    </TableHead>
+                    <TableBody>
+                      {metrics.thirdParties.map((entity) => (
+                        <TableRow key={entity.name}>
+                          <TableCell>{entity.name}</TableCell>
+                          <TableCell>
+                            <Tag type={POLICY_CATEGORIES.includes(entity.category) ? 'magenta' : 'gray'} size="sm">
+                              {getThirdPartyCategoryLabel(entity.category)}
+                            </Tag>
+                          </TableCell>
+                          <TableCell>{formatBytes(entity.transferSize)}</TableCell>
+                          {hasThirdPartyBlockingTime && <TableCell>{formatTiming(entity.blockingTime)}</TableCell>}
+                          <TableCell>{formatTiming(entity.mainThreadTime)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </TableContainer>
+              )}
+            </Column>
+          )}
+
+          {/* Month-over-month audit changes */}
+          {canShowDetailedAuditResults && auditDiff && (
+            <Column lg={16} md={8} sm={4}>
+              <h2 style={{ fontSize: '1.5rem', fontWeight: 600, marginTop: '3rem', marginBottom: '0.5rem' }}>
+                What changed since {formatMonth(auditDiff.previousMonth)}
+              </h2>
+              <p style={{ color: 'var(--cds-text-secondary)', marginBottom: '1.5rem' }}>
+                Failing audits compared with the previous month&apos;s report, so you can confirm fixes have landed.
+                Audits this month&apos;s report does not record as passed, for example after a Lighthouse upgrade,
+                are listed as not audited rather than resolved.
+              </p>
+              <AuditChanges diff={auditDiff} />
+            </Column>
+          )}
+
+          {/* WCAG conformance */}
+          {canShowDetailedAuditResults && (
+            <Column lg={16} md={8} sm={4}>
+              <h2 style={{ fontSize: '1.5rem', fontWeight: 600, marginTop: '3rem', marginBottom: '0.5rem' }}>
+                WCAG 2.2 success criteria
+              </h2>
+              <p style={{ color: 'var(--cds-text-secondary)', marginBottom: '1.5rem', maxWidth: '800px' }}>
+                Failing accessibility audits mapped to the WCAG 2.2 success criteria they test. Automated
+                testing covers only part of WCAG, so criteria without failures still need a manual check.
+              </p>
+              <WcagConformance audits={metrics.audits?.accessibility || []} />
+            </Column>
+          )}
+
+          {/* Fixes ranked by estimated score gain */}
+          {canShowDetailedAuditResults && (
+            <Column lg={16} md={8} sm={4}>
+              <h2 style={{ fontSize: '1.5rem', fontWeight: 600, marginTop: '3rem', marginBottom: '0.5rem' }}>
+                Fix plan
+              </h2>
+              <p style={{ color: 'var(--cds-text-secondary)', marginBottom: '1.5rem', maxWidth: '800px' }}>
+                Failing audits ranked by the category points each fix would recover, with the score projected
+                after making it and every fix above it. Performance gains use Lighthouse&apos;s estimated savings,
+                which can overlap, so treat the projections as best case.
+                {missingSavingsData && ' Savings were not recorded for this report, so performance fixes are not ranked.'}
+              </p>
+              {fixPlan.length > 0 ? (
+                <FixPlan steps={fixPlan} scores={scores} />
+              ) : (
+                <p>No fixes with an estimated score gain.</p>
+              )}
+            </Column>
+          )}
+
           {/* Detailed audit results */}
           {canShowDetailedAuditResults ? (
             <>
@@ -456,6 +804,12 @@ export default function CountryAuditClient({ tld }: { tld: string }) {
                 <p style={{ color: 'var(--cds-text-secondary)', marginBottom: '2rem' }}>
                   Expand each category to see specific issues and recommendations for improvement.
                 </p>
+                <ExportButtons
+                  label="Download issue list"
+                  filename={`${tld}-audits-${latestReport.month}-${formFactor}`}
+                  rows={auditIssueRows}
+                  json={{ country: countryReport.country, tld, month: latestReport.month, formFactor, audits: metrics.audits }}
+                />
               </Column>
 
               {/* Performance Audits */}
@@ -464,7 +818,7 @@ export default function CountryAuditClient({ tld }: { tld: string }) {
                   <h3 style={{ fontSize: '1.25rem', fontWeight: 600, marginBottom: '1rem' }}>
                     Performance issues
                   </h3>
-                  {renderAuditSection('Performance', metrics.audits?.performance, metrics.performance)}
+                  {renderAuditSection('Performance', metrics.audits?.performance, scores.performance)}
                 </Tile>
               </Column>
 
@@ -474,7 +828,7 @@ export default function CountryAuditClient({ tld }: { tld: string }) {
                   <h3 style={{ fontSize: '1.25rem', fontWeight: 600, marginBottom: '1rem' }}>
                     Accessibility issues
                   </h3>
-                  {renderAuditSection('Accessibility', metrics.audits?.accessibility, metrics.accessibility)}
+                  {renderAuditSection('Accessibility', metrics.audits?.accessibility, scores.accessibility)}
                 </Tile>
               </Column>
 
@@ -484,7 +838,7 @@ export default function CountryAuditClient({ tld }: { tld: string }) {
                   <h3 style={{ fontSize: '1.25rem', fontWeight: 600, marginBottom: '1rem' }}>
                     Best practices issues
                   </h3>
-                  {renderAuditSection('Best Practices', metrics.audits?.bestPractices, metrics.bestPractices)}
+                  {renderAuditSection('Best Practices', metrics.audits?.bestPractices, scores.bestPractices)}
                 </Tile>
               </Column>
 
@@ -494,11 +848,11 @@ export default function CountryAuditClient({ tld }: { tld: string }) {
                   <h3 style={{ fontSize: '1.25rem', fontWeight: 600, marginBottom: '1rem' }}>
                     SEO issues
                   </h3>
-                  {renderAuditSection('SEO', metrics.audits?.seo, metrics.seo)}
+                  {renderAuditSection('SEO', metrics.audits?.seo, scores.seo)}
                 </Tile>
               </Column>
             </>
-          ) : (
+          ) : auditSucceeded && (
             <Column lg={16} md={8} sm={4}>
               <Tile style={{ padding: '3rem', textAlign: 'center', marginTop: '2rem' }}>
                 <WarningFilled size={32} style={{ color: '#f1c21b', marginBottom: '1rem' }} />
@@ -506,9 +860,7 @@ export default function CountryAuditClient({ tld }: { tld: string }) {
                   Detailed audit data not available
                 </p>
                 <p style={{ color: 'var(--cds-text-secondary)', marginTop: '0.5rem' }}>
-                  {hasMeaningfulScores
-                    ? 'This report was generated before detailed audit tracking was enabled. New audits will include detailed recommendations.'
-                    : 'We were not able to fetch meaningful data from this website for this run, so detailed reports and recommendations are not available.'}
+                  This report was generated before detailed audit tracking was enabled. New audits will include detailed recommendations.
                 </p>
               </Tile>
             </Column>
@@ -0,0 +1,32 @@
+import type { Metadata } from 'next';
+import CountryAuditClient from '../CountryAuditClient';
+import { getCountryFeedMetadata } from '../countryFeedMetadata';
+
+// Generate a static permalink for every country and month in the manifest
+export async function generateStaticParams() {
+  // During build, we need to read the files from the file system
+  const fs = require('fs');
+  const path = require('path');
+
+  const countriesPath = path.join(process.cwd(), 'public', 'data', 'countries.json');
+  const manifestPath = path.join(process.cwd(), 'public', 'data', 'reports', 'manifest.json');
+  const countriesData = JSON.parse(fs.readFileSync(countriesPath, 'utf8'));
+  const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+
+  return countriesData.countries.flatMap((country: { tld: string }) =>
+    manifest.reports.map((report: { month: string }) => ({
+      tld: country.tld,
+      month: report.month,
+    }))
+  );
+}
+
+export async function generateMetadata({ params }: { params: Promise<{ tld: string; month: string }> }): Promise<Metadata> {
+  const { tld } = await params;
+  return getCountryFeedMetadata(tld);
+}
+
+export default async function CountryMonthAuditPage({ params }: { params: Promise<{ tld: string; month: string }> }) {
+  const { tld, month } = await params;
+  return <CountryAuditClient tld={tld} month={month} />;
+}
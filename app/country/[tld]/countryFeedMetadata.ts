@@ -0,0 +1,19 @@
+import type { Metadata } from 'next';
+
+const basePath = process.env.NODE_ENV === 'production' ? '/gov-web-performance' : '';
+
+/**
+ * Advertise the country's Atom feed (written by scripts/build-feeds.js) next to the global one
+ */
+export function getCountryFeedMetadata(tld: string): Metadata {
+  return {
+    alternates: {
+      types: {
+        'application/atom+xml': [
+          { url: `${basePath}/feeds/${tld}.xml`, title: 'Monthly results for this country' },
+          { url: `${basePath}/feeds/atom.xml`, title: 'Monthly results' },
+        ],
+      },
+    },
+  };
+}
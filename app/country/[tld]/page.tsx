@@ -1,4 +1,6 @@
+import type { Metadata } from 'next';
 import CountryAuditClient from './CountryAuditClient';
+import { getCountryFeedMetadata } from './countryFeedMetadata';
 
 // Generate static paths for all countries at build time
 export async function generateStaticParams() {
@@ -14,6 +16,11 @@ export async function generateStaticParams() {
   }));
 }
 
+export async function generateMetadata({ params }: { params: Promise<{ tld: string }> }): Promise<Metadata> {
+  const { tld } = await params;
+  return getCountryFeedMetadata(tld);
+}
+
 export default async function CountryAuditPage({ params }: { params: Promise<{ tld: string }> }) {
   const { tld } = await params;
   return <CountryAuditClient tld={tld} />;
@@ -0,0 +1,129 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Grid, Column, Loading, Select, SelectItem, Tile } from '@carbon/react';
+import Header from '@/components/Header';
+import FormFactorSwitch from '@/components/FormFactorSwitch';
+import BadgeEmbed from '@/components/BadgeEmbed';
+import { Country, FormFactor, MonthlyReport } from '@/types';
+import {
+  fetchCountries,
+  fetchLatestReport,
+  getCountryRankings,
+  selectFormFactor,
+  DEFAULT_FORM_FACTOR,
+} from '@/utils/dataLoader';
+
+export default function EmbedPage() {
+  const [countries, setCountries] = useState<Country[]>([]);
+  const [latestReport, setLatestReport] = useState<MonthlyReport | null>(null);
+  const [tld, setTld] = useState<string>('');
+  const [formFactor, setFormFactor] = useState<FormFactor>(DEFAULT_FORM_FACTOR);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function loadData() {
+      try {
+        const [countriesData, report] = await Promise.all([
+          fetchCountries(),
+          fetchLatestReport(),
+        ]);
+        setCountries(countriesData);
+        setLatestReport(report);
+        setTld(countriesData[0]?.tld ?? '');
+      } catch (err) {
+        setError('Failed to load data');
+        console.error(err);
+      } finally {
+        setLoading(false);
+      }
+    }
+    loadData();
+  }, []);
+
+  if (loading) {
+    return (
+      <>
+        <Header />
+        <div className="page-container" style={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '50vh' }}>
+          <Loading description="Loading badges..." withOverlay={false} />
+        </div>
+      </>
+    );
+  }
+
+  if (error || !latestReport) {
+    return (
+      <>
+        <Header />
+        <div className="page-container">
+          <h1>Error loading data</h1>
+          <p>{error || 'No data available'}</p>
+        </div>
+      </>
+    );
+  }
+
+  const formFactorReport = selectFormFactor(latestReport, formFactor);
+  const country = countries.find((c) => c.tld === tld);
+  const isAudited = formFactorReport.reports.some((report) => report.tld === tld);
+
+  return (
+    <>
+      <Header />
+      <main className="page-container">
+        <Grid>
+          <Column lg={16} md={8} sm={4}>
+            <div style={{ marginBottom: '2rem' }}>
+              <h1 style={{ fontSize: '2.5rem', fontWeight: 700, marginBottom: '1rem' }}>
+                Score badges
+              </h1>
+              <p style={{ fontSize: '1.125rem', color: 'var(--cds-text-secondary)', maxWidth: '800px' }}>
+                Show your website&apos;s latest score and rank on your own site or in a README. Badges are
+                regenerated after every monthly audit, so the embed code never needs to change.
+              </p>
+            </div>
+          </Column>
+
+          <Column lg={4} md={4} sm={4}>
+            <Select
+              id="embed-country"
+              labelText="Country"
+              value={tld}
+              onChange={(e) => setTld(e.target.value)}
+              style={{ marginBottom: '2rem' }}
+            >
+              {countries.map((c) => (
+                <SelectItem key={c.tld} value={c.tld} text={c.name} />
+              ))}
+            </Select>
+          </Column>
+
+          <Column lg={16} md={8} sm={4}>
+            <FormFactorSwitch value={formFactor} onChange={setFormFactor} />
+          </Column>
+
+          <Column lg={10} md={8} sm={4}>
+            <Tile>
+              {country && isAudited ? (
+                <BadgeEmbed
+                  key={`${tld}-${formFactor}`}
+                  tld={tld}
+                  country={country.name}
+                  formFactor={formFactor}
+                  month={formFactorReport.month}
+                  rankings={getCountryRankings(formFactorReport, tld)}
+                />
+              ) : (
+                <p style={{ color: 'var(--cds-text-secondary)' }}>
+                  No {formFactor} audit is available for this country in the latest month.
+                </p>
+              )}
+            </Tile>
+          </Column>
+        </Grid>
+      </main>
+    </>
+  );
+}
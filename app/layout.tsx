@@ -1,10 +1,17 @@
 import type { Metadata } from 'next';
 import './globals.scss';
 
+const basePath = process.env.NODE_ENV === 'production' ? '/gov-web-performance' : '';
+
 export const metadata: Metadata = {
   title: 'Government Web Performance Dashboard',
   description: 'Analyze and compare the performance and accessibility metrics of government websites using Google Lighthouse reports.',
   keywords: ['government', 'performance', 'accessibility', 'lighthouse', 'web performance'],
+  alternates: {
+    types: {
+      'application/atom+xml': [{ url: `${basePath}/feeds/atom.xml`, title: 'Monthly results' }],
+    },
+  },
 };
 
 export default function RootLayout({
@@ -1,22 +1,71 @@
 'use client';
 
 import { useEffect, useState } from 'react';
-import { Grid, Column, Loading, UnorderedList, ListItem } from '@carbon/react';
+import {
+  Grid,
+  Column,
+  Loading,
+  UnorderedList,
+  ListItem,
+  Table,
+  TableHead,
+  TableRow,
+  TableHeader,
+  TableBody,
+  TableCell,
+  TableContainer,
+  Select,
+  SelectItem,
+} from '@carbon/react';
 import Header from '@/components/Header';
 import MetricCard from '@/components/MetricCard';
-import { MonthlyReport } from '@/types';
-import { fetchLatestReport, calculateAverageScores } from '@/utils/dataLoader';
+import FormFactorSwitch from '@/components/FormFactorSwitch';
+import EuropeMap from '@/components/EuropeMap';
+import { MonthlyReport, FormFactor, Country, RankingMetric } from '@/types';
+import type { Topology } from 'topojson-specification';
+import {
+  fetchLatestReport,
+  fetchCountries,
+  fetchReportManifest,
+  fetchMonthlySummary,
+  fetchEuropeMap,
+  calculateAverageScores,
+  calculateRankings,
+  selectFormFactor,
+  formatMonth,
+  DEFAULT_FORM_FACTOR,
+  SCORE_CATEGORIES,
+  RANKING_METRICS,
+  RANKING_METRIC_LABELS,
+} from '@/utils/dataLoader';
+import { calculateGroupScores, COUNTRY_GROUP_LABELS } from '@/utils/countryGroups';
+import { isAuditSuccessful } from '@/utils/auditStatus';
 
 export default function Home() {
   const [latestReport, setLatestReport] = useState<MonthlyReport | null>(null);
+  const [countries, setCountries] = useState<Country[]>([]);
+  const [formFactor, setFormFactor] = useState<FormFactor>(DEFAULT_FORM_FACTOR);
+  const [months, setMonths] = useState<string[]>([]);
+  const [mapTopology, setMapTopology] = useState<Topology | null>(null);
+  const [mapMonth, setMapMonth] = useState<string | null>(null);
+  const [mapReport, setMapReport] = useState<MonthlyReport | null>(null);
+  const [mapMetric, setMapMetric] = useState<RankingMetric>('performance');
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
     async function loadData() {
       try {
-        const report = await fetchLatestReport();
+        const [report, countriesData, manifest] = await Promise.all([
+          fetchLatestReport(),
+          fetchCountries(),
+          fetchReportManifest(),
+        ]);
         setLatestReport(report);
+        setCountries(countriesData);
+        setMonths(manifest.reports.map(({ month }) => month));
+        setMapMonth(report?.month ?? null);
+        setMapReport(report);
       } catch (err) {
         setError('Failed to load data');
         console.error(err);
@@ -27,6 +76,21 @@ export default function Home() {
     loadData();
   }, []);
 
+  useEffect(() => {
+    // The map is optional, so a missing map file only hides that section
+    fetchEuropeMap()
+      .then(setMapTopology)
+      .catch((err) => console.error(err));
+  }, []);
+
+  useEffect(() => {
+    if (!mapMonth || mapMonth === mapReport?.month) return;
+
+    fetchMonthlySummary(mapMonth)
+      .then((report) => report && setMapReport(report))
+      .catch((err) => console.error(err));
+  }, [mapMonth, mapReport]);
+
   if (loading) {
     return (
       <>
@@ -50,7 +114,15 @@ export default function Home() {
     );
   }
 
-  const averageScores = calculateAverageScores(latestReport);
+  const formFactorReport = selectFormFactor(latestReport, formFactor);
+  const averageScores = formFactorReport.reports.length > 0
+    ? calculateAverageScores(formFactorReport)
+    : null;
+  const groupScores = calculateGroupScores(formFactorReport, countries);
+  const mapRankings = mapReport
+    ? calculateRankings(selectFormFactor(mapReport, formFactor), null, mapMetric).rankings
+    : [];
+  const failedAuditCount = formFactorReport.reports.filter((report) => !isAuditSuccessful(report)).length;
   const reportDate = new Date(latestReport.generatedAt).toLocaleDateString('en-US', {
     year: 'numeric',
     month: 'long',
@@ -73,7 +145,10 @@ export default function Home() {
                 for optimization.
               </p>
               <p style={{ fontSize: '0.875rem', color: 'var(--cds-text-secondary)', marginTop: '1rem' }}>
-                Last updated: {reportDate}
+                Last updated: {reportDate} ·{' '}
+                <a href={`${process.env.NODE_ENV === 'production' ? '/gov-web-performance' : ''}/feeds/atom.xml`}>
+                  Subscribe to monthly results (Atom feed)
+                </a>
               </p>
             </div>
           </Column>
@@ -82,39 +157,140 @@ export default function Home() {
             <h2 style={{ fontSize: '1.75rem', fontWeight: 600, marginBottom: '1.5rem' }}>
               Average scores across all countries
             </h2>
+            {failedAuditCount > 0 && (
+              <p style={{ fontSize: '0.875rem', color: 'var(--cds-text-secondary)', marginBottom: '1.5rem' }}>
+                {failedAuditCount} {failedAuditCount === 1 ? 'audit' : 'audits'} failed this month and {failedAuditCount === 1 ? 'is' : 'are'} not included in the averages.
+              </p>
+            )}
           </Column>
 
-          <Column lg={3} md={4} sm={4}>
-            <MetricCard
-              title="Performance"
-              score={averageScores.performance}
-              description="Page load speed and optimization"
-            />
+          <Column lg={16} md={8} sm={4}>
+            <FormFactorSwitch value={formFactor} onChange={setFormFactor} />
           </Column>
 
-          <Column lg={3} md={4} sm={4}>
-            <MetricCard
-              title="Accessibility"
-              score={averageScores.accessibility}
-              description="Inclusive design and usability"
-            />
-          </Column>
+          {averageScores ? (
+            <>
+              <Column lg={3} md={4} sm={4}>
+                <MetricCard
+                  title="Performance"
+                  score={averageScores.performance}
+                  description="Page load speed and optimization"
+                />
+              </Column>
 
-          <Column lg={3} md={4} sm={4}>
-            <MetricCard
-              title="Best Practices"
-              score={averageScores.bestPractices}
-              description="Web development standards"
-            />
-          </Column>
+              <Column lg={3} md={4} sm={4}>
+                <MetricCard
+                  title="Accessibility"
+                  score={averageScores.accessibility}
+                  description="Inclusive design and usability"
+                />
+              </Column>
 
-          <Column lg={3} md={4} sm={4}>
-            <MetricCard
-              title="SEO"
-              score={averageScores.seo}
-              description="Search engine optimization"
-            />
-          </Column>
+              <Column lg={3} md={4} sm={4}>
+                <MetricCard
+                  title="Best Practices"
+                  score={averageScores.bestPractices}
+                  description="Web development standards"
+                />
+              </Column>
+
+              <Column lg={3} md={4} sm={4}>
+                <MetricCard
+                  title="SEO"
+                  score={averageScores.seo}
+                  description="Search engine optimization"
+                />
+              </Column>
+            </>
+          ) : (
+            <Column lg={16} md={8} sm={4}>
+              <p style={{ color: 'var(--cds-text-secondary)' }}>
+                No {formFactor} audits are available for this month yet.
+              </p>
+            </Column>
+          )}
+
+          {mapTopology && mapMonth && (
+            <Column lg={16} md={8} sm={4}>
+              <h2 style={{ fontSize: '1.75rem', fontWeight: 600, marginTop: '3rem', marginBottom: '0.5rem' }}>
+                Scores across Europe
+              </h2>
+              <p style={{ color: 'var(--cds-text-secondary)', marginBottom: '1.5rem' }}>
+                Each country is coloured by its {formFactor} score for the selected metric. Select a country to open its report.
+              </p>
+              <div style={{ display: 'flex', gap: '1rem', flexWrap: 'wrap', marginBottom: '1.5rem' }}>
+                <Select
+                  id="map-metric"
+                  labelText="Metric"
+                  value={mapMetric}
+                  onChange={(e) => setMapMetric(e.target.value as RankingMetric)}
+                  style={{ minWidth: '14rem' }}
+                >
+                  {RANKING_METRICS.map((metric) => (
+                    <SelectItem key={metric} value={metric} text={RANKING_METRIC_LABELS[metric]} />
+                  ))}
+                </Select>
+                <Select
+                  id="map-month"
+                  labelText="Month"
+                  value={mapMonth}
+                  onChange={(e) => setMapMonth(e.target.value)}
+                  style={{ minWidth: '14rem' }}
+                >
+                  {months.map((month) => (
+                    <SelectItem key={month} value={month} text={formatMonth(month)} />
+                  ))}
+                </Select>
+              </div>
+              <EuropeMap
+                topology={mapTopology}
+                rankings={mapRankings}
+                metricLabel={RANKING_METRIC_LABELS[mapMetric]}
+                month={mapReport?.month ?? mapMonth}
+              />
+            </Column>
+          )}
+
+          {groupScores.length > 0 && (
+            <Column lg={16} md={8} sm={4}>
+              <h2 style={{ fontSize: '1.75rem', fontWeight: 600, marginTop: '3rem', marginBottom: '0.5rem' }}>
+                Regional scores
+              </h2>
+              <p style={{ color: 'var(--cds-text-secondary)', marginBottom: '1.5rem' }}>
+                Average and median (in brackets) scores for policy blocs and regions.
+              </p>
+              <TableContainer>
+                <Table size="md">
+                  <TableHead>
+                    <TableRow>
+                      <TableHeader>Group</TableHeader>
+                      <TableHeader>Countries</TableHeader>
+                      {SCORE_CATEGORIES.map((category) => (
+                        <TableHeader key={category}>{RANKING_METRIC_LABELS[category]}</TableHeader>
+                      ))}
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {groupScores.map((scores) => (
+                      <TableRow key={scores.group}>
+                        <TableCell>
+                          <a href={`${process.env.NODE_ENV === 'production' ? '/gov-web-performance' : ''}/rankings?group=${scores.group}`}>
+                            {COUNTRY_GROUP_LABELS[scores.group]}
+                          </a>
+                        </TableCell>
+                        <TableCell>{scores.countryCount}</TableCell>
+                        {SCORE_CATEGORIES.map((category) => (
+                          <TableCell key={category}>
+                            <strong>{scores.average[category]}</strong> ({scores.median[category]})
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            </Column>
+          )}
 
           <Column lg={16} md={8} sm={4}>
             <div style={{ marginTop: '3rem', maxWidth: '800px' }}>
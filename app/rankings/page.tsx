@@ -1,6 +1,7 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { Suspense, useEffect, useState } from 'react';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
 import {
   DataTable,
   Table,
@@ -18,22 +19,81 @@ import {
   TabPanel,
   Grid,
   Column,
+  Tag,
+  Select,
+  SelectItem,
 } from '@carbon/react';
 import { ArrowUp, ArrowDown, Subtract, CircleSolid } from '@carbon/icons-react';
 import Header from '@/components/Header';
-import { MonthlyReport, CountryRanking } from '@/types';
-import { fetchAllReports, calculateRankings } from '@/utils/dataLoader';
+import FormFactorSwitch from '@/components/FormFactorSwitch';
+import ExportButtons from '@/components/ExportButtons';
+import { MonthlyReport, CountryRanking, FormFactor, RankingMetric, ComparisonBaseline, Country, CountryGroup } from '@/types';
+import {
+  fetchAllReports,
+  fetchCountries,
+  fetchReportManifest,
+  calculateRankings,
+  selectFormFactor,
+  getBaselineMonth,
+  formatMonth,
+  DEFAULT_FORM_FACTOR,
+  FORM_FACTORS,
+  RANKING_METRICS,
+  RANKING_METRIC_LABELS,
+  SCORE_CATEGORIES,
+  COMPARISON_BASELINE_LABELS,
+} from '@/utils/dataLoader';
+import { AUDIT_STATUS_DESCRIPTIONS } from '@/utils/auditStatus';
+import { COMPOSITE_INDEX_WEIGHTS } from '@/utils/compositeIndex';
+import { COUNTRY_GROUPS, COUNTRY_GROUP_LABELS, filterReportByGroup } from '@/utils/countryGroups';
+
+const COMPARISON_BASELINES = Object.keys(COMPARISON_BASELINE_LABELS) as ComparisonBaseline[];
 
+function LoadingRankings() {
+  return (
+    <>
+      <Header />
+      <div className="page-container" style={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '50vh' }}>
+        <Loading description="Loading rankings..." withOverlay={false} />
+      </div>
+    </>
+  );
+}
+
+// useSearchParams needs a Suspense boundary to be statically exported
 export default function RankingsPage() {
+  return (
+    <Suspense fallback={<LoadingRankings />}>
+      <RankingsView />
+    </Suspense>
+  );
+}
+
+function RankingsView() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
   const [reports, setReports] = useState<MonthlyReport[]>([]);
+  const [months, setMonths] = useState<string[]>([]);
+  const [countries, setCountries] = useState<Country[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
     async function loadData() {
       try {
-        const allReports = await fetchAllReports();
+        const [manifest, allReports, countriesData] = await Promise.all([
+          fetchReportManifest(),
+          fetchAllReports(),
+          fetchCountries(),
+        ]);
+        setCountries(countriesData);
         setReports(allReports.sort((a, b) => b.month.localeCompare(a.month)));
+        setMonths(
+          manifest.reports
+            .map(({ month }) => month)
+            .filter((month) => allReports.some((report) => report.month === month))
+        );
       } catch (err) {
         setError('Failed to load rankings data');
         console.error(err);
@@ -45,14 +105,7 @@ export default function RankingsPage() {
   }, []);
 
   if (loading) {
-    return (
-      <>
-        <Header />
-        <div className="page-container" style={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '50vh' }}>
-          <Loading description="Loading rankings..." withOverlay={false} />
-        </div>
-      </>
-    );
+    return <LoadingRankings />;
   }
 
   if (error || reports.length === 0) {
@@ -67,14 +120,39 @@ export default function RankingsPage() {
     );
   }
 
-  const latestReport = reports[0];
-  const previousReport = reports.length > 1 ? reports[1] : null;
+  // The view is read from the URL so that a specific historical ranking can be linked
+  const monthParam = searchParams.get('month');
+  const month = monthParam && months.includes(monthParam) ? monthParam : reports[0].month;
+  const baselineParam = searchParams.get('baseline') as ComparisonBaseline | null;
+  const baseline = baselineParam && COMPARISON_BASELINES.includes(baselineParam) ? baselineParam : 'previous';
+  const metricParam = searchParams.get('metric') as RankingMetric | null;
+  const metric = metricParam && RANKING_METRICS.includes(metricParam) ? metricParam : RANKING_METRICS[0];
+  const formFactorParam = searchParams.get('formFactor') as FormFactor | null;
+  const formFactor = formFactorParam && FORM_FACTORS.includes(formFactorParam) ? formFactorParam : DEFAULT_FORM_FACTOR;
+  const groupParam = searchParams.get('group') as CountryGroup | null;
+  const group = groupParam && COUNTRY_GROUPS.includes(groupParam) ? groupParam : null;
 
-  const performanceRankings = calculateRankings(latestReport, previousReport, 'performance');
-  const accessibilityRankings = calculateRankings(latestReport, previousReport, 'accessibility');
-  const bestPracticesRankings = calculateRankings(latestReport, previousReport, 'bestPractices');
-  const seoRankings = calculateRankings(latestReport, previousReport, 'seo');
+  const updateView = (changes: Record<string, string>) => {
+    const params = new URLSearchParams(searchParams.toString());
+    Object.entries(changes).forEach(([key, value]) => params.set(key, value));
+    router.replace(`${pathname}?${params.toString()}`, { scroll: false });
+  };
 
+  const baselineMonth = getBaselineMonth(months, month, baseline);
+  // Countries are ranked within the selected group
+  const selectView = (report: MonthlyReport) =>
+    selectFormFactor(group ? filterReportByGroup(report, countries, group) : report, formFactor);
+  const currentReport = selectView(reports.find((report) => report.month === month)!);
+  const baselineReport = baselineMonth
+    ? selectView(reports.find((report) => report.month === baselineMonth)!)
+    : null;
+
+  const rankingsByMetric = Object.fromEntries(
+    RANKING_METRICS.map((rankingMetric) => [
+      rankingMetric,
+      calculateRankings(currentReport, baselineReport, rankingMetric).rankings,
+    ])
+  ) as Record<RankingMetric, CountryRanking[]>;
 
   return (
     <>
@@ -90,32 +168,90 @@ export default function RankingsPage() {
                 Compare how government websites rank across different performance metrics.
                 Rankings are updated monthly based on Google Lighthouse audits.
               </p>
+              <p style={{ fontSize: '0.875rem', color: 'var(--cds-text-secondary)', marginTop: '1rem' }}>
+                Every monthly score of every country is also available as a{' '}
+                <a href={`${process.env.NODE_ENV === 'production' ? '/gov-web-performance' : ''}/data/reports/history.csv`} download>
+                  single CSV file
+                </a>.
+              </p>
             </div>
           </Column>
 
+          <Column lg={4} md={4} sm={4}>
+            <Select
+              id="ranking-month"
+              labelText="Month"
+              value={month}
+              onChange={(e) => updateView({ month: e.target.value })}
+              style={{ marginBottom: '2rem' }}
+            >
+              {months.map((m) => (
+                <SelectItem key={m} value={m} text={formatMonth(m)} />
+              ))}
+            </Select>
+          </Column>
+
+          <Column lg={4} md={4} sm={4}>
+            <Select
+              id="ranking-baseline"
+              labelText="Compare with"
+              value={baseline}
+              onChange={(e) => updateView({ baseline: e.target.value })}
+              helperText={baselineMonth
+                ? `Rank changes since ${formatMonth(baselineMonth)}`
+                : 'No earlier report to compare with'}
+              style={{ marginBottom: '2rem' }}
+            >
+              {COMPARISON_BASELINES.map((option) => (
+                <SelectItem key={option} value={option} text={COMPARISON_BASELINE_LABELS[option]} />
+              ))}
+            </Select>
+          </Column>
+
+          <Column lg={4} md={4} sm={4}>
+            <Select
+              id="ranking-group"
+              labelText="Countries"
+              value={group ?? 'all'}
+              onChange={(e) => updateView({ group: e.target.value })}
+              style={{ marginBottom: '2rem' }}
+            >
+              <SelectItem value="all" text="All countries" />
+              {COUNTRY_GROUPS.map((countryGroup) => (
+                <SelectItem key={countryGroup} value={countryGroup} text={COUNTRY_GROUP_LABELS[countryGroup]} />
+              ))}
+            </Select>
+          </Column>
+
           <Column lg={16} md={8} sm={4}>
-            <Tabs>
-              <TabList aria-label="Metric rankings" contained>
-                <Tab>Performance</Tab>
-                <Tab>Accessibility</Tab>
-                <Tab>Best Practices</Tab>
-                <Tab>SEO</Tab>
+            <FormFactorSwitch value={formFactor} onChange={(value) => updateView({ formFactor: value })} />
+          </Column>
 
+          <Column lg={16} md={8} sm={4}>
+            <Tabs
+              selectedIndex={RANKING_METRICS.indexOf(metric)}
+              onChange={({ selectedIndex }) => updateView({ metric: RANKING_METRICS[selectedIndex] })}
+            >
+              <TabList aria-label="Metric rankings" contained>
+                {RANKING_METRICS.map((rankingMetric) => (
+                  <Tab key={rankingMetric}>{RANKING_METRIC_LABELS[rankingMetric]}</Tab>
+                ))}
               </TabList>
               <TabPanels>
-                <TabPanel>
-                  <RankingTable rankings={performanceRankings.rankings} />
-                </TabPanel>
-                <TabPanel>
-                  <RankingTable rankings={accessibilityRankings.rankings} />
-                </TabPanel>
-                <TabPanel>
-                  <RankingTable rankings={bestPracticesRankings.rankings} />
-                </TabPanel>
-                <TabPanel>
-                  <RankingTable rankings={seoRankings.rankings} />
-                </TabPanel>
-
+                {RANKING_METRICS.map((rankingMetric) => (
+                  <TabPanel key={rankingMetric}>
+                    {rankingMetric === 'overall' && <CompositeIndexMethod />}
+                    <RankingExport
+                      rankings={rankingsByMetric[rankingMetric]}
+                      filename={['rankings', rankingMetric, month, formFactor, group].filter(Boolean).join('-')}
+                      context={{ metric: rankingMetric, month, baselineMonth, formFactor, group }}
+                    />
+                    <RankingTable
+                      rankings={rankingsByMetric[rankingMetric]}
+                      reportMonth={month === reports[0].month ? undefined : month}
+                    />
+                  </TabPanel>
+                ))}
               </TabPanels>
             </Tabs>
           </Column>
@@ -125,7 +261,54 @@ export default function RankingsPage() {
   );
 }
 
-function RankingTable({ rankings }: { rankings: CountryRanking[] }) {
+function CompositeIndexMethod() {
+  const weights = [...SCORE_CATEGORIES].sort((a, b) => COMPOSITE_INDEX_WEIGHTS[b] - COMPOSITE_INDEX_WEIGHTS[a]);
+
+  return (
+    <div style={{ padding: '1rem 0', color: 'var(--cds-text-secondary)', maxWidth: '800px' }}>
+      <p style={{ marginBottom: '0.5rem' }}>
+        The overall index is a weighted average of the four Lighthouse category scores:{' '}
+        {weights.map((category, i) => (
+          <span key={category}>
+            <strong>{COMPOSITE_INDEX_WEIGHTS[category]}%</strong> {RANKING_METRIC_LABELS[category]}
+            {i < weights.length - 1 ? ' + ' : '.'}
+          </span>
+        ))}
+      </p>
+      <p>Countries missing a score in any category are not ranked on the overall index.</p>
+    </div>
+  );
+}
+
+function RankingExport({
+  rankings,
+  filename,
+  context,
+}: {
+  rankings: CountryRanking[];
+  filename: string;
+  context: { metric: RankingMetric; month: string; baselineMonth: string | null; formFactor: FormFactor; group: CountryGroup | null };
+}) {
+  // Unranked countries have no valid score, so their score is left empty
+  const rows = rankings.map((ranking) => ({
+    rank: ranking.rank,
+    previousRank: ranking.previousRank,
+    change: ranking.change,
+    country: ranking.country,
+    tld: ranking.tld,
+    score: ranking.rank !== undefined ? ranking.score : null,
+    status: ranking.status,
+  }));
+
+  return (
+    <div style={{ marginTop: '1rem' }}>
+      <ExportButtons label="Download this ranking" filename={filename} rows={rows} json={{ ...context, rankings: rows }} />
+    </div>
+  );
+}
+
+// Countries link to their report of reportMonth, or to their latest report when it is not set
+function RankingTable({ rankings, reportMonth }: { rankings: CountryRanking[]; reportMonth?: string }) {
   const headers = [
     { key: 'rank', header: 'Rank' },
     { key: 'country', header: 'Country' },
@@ -173,6 +356,16 @@ function RankingTable({ rankings }: { rankings: CountryRanking[] }) {
                     }
                     if (cell.info.header === 'score') {
                       const score = cell.value;
+                      const status = rankings.find(r => r.tld === row.id)?.status;
+                      if (status && status !== 'ok') {
+                        return (
+                          <TableCell key={cell.id}>
+                            <Tag type="red" size="sm" title={`Audit failed because ${AUDIT_STATUS_DESCRIPTIONS[status]}`}>
+                              Audit failed
+                            </Tag>
+                          </TableCell>
+                        );
+                      }
                       if (score === 0) {
                         return <TableCell key={cell.id}>N/A</TableCell>;
                       }
@@ -195,9 +388,7 @@ function RankingTable({ rankings }: { rankings: CountryRanking[] }) {
                     if (cell.info.header === 'change') {
                       const change = cell.value;
                       const previousRank = rankings.find(r => r.tld === row.id)?.previousRank;
-                      const score = rankings.find(r => r.tld === row.id)?.score;
-
-                      if (score === 0 || change === undefined || previousRank === undefined) {
+                      if (change === undefined || previousRank === undefined) {
                         return <TableCell key={cell.id}>N/A</TableCell>;
                       }
 
@@ -232,10 +423,11 @@ function RankingTable({ rankings }: { rankings: CountryRanking[] }) {
                     }
                     if (cell.info.header === 'country') {
                       const baseUrl = process.env.NODE_ENV === 'production' ? '/gov-web-performance' : '';
+                      const countryPath = reportMonth ? `${row.id}/${reportMonth}` : row.id;
                       return (
                         <TableCell key={cell.id}>
                           <a
-                            href={`${baseUrl}/country/${row.id}`}
+                            href={`${baseUrl}/country/${countryPath}`}
                             style={{
                               color: 'var(--cds-link-primary)',
                               textDecoration: 'none',
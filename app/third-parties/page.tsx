@@ -0,0 +1,302 @@
+'use client';
+
+import { Fragment, Suspense } from 'react';
+import { useSearchParams } from 'next/navigation';
+import {
+  DataTable,
+  Table,
+  TableHead,
+  TableRow,
+  TableHeader,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableExpandHeader,
+  TableExpandRow,
+  TableExpandedRow,
+  Loading,
+  Grid,
+  Column,
+  Select,
+  SelectItem,
+  Tag,
+  Link,
+} from '@carbon/react';
+import Header from '@/components/Header';
+import FormFactorSwitch from '@/components/FormFactorSwitch';
+import { CountryReport, ThirdPartyUsage } from '@/types';
+import { useMonthDetails } from '@/hooks/useMonthDetails';
+import { formatBytes, formatMonth, formatTiming } from '@/utils/dataLoader';
+import {
+  POLICY_CATEGORIES,
+  aggregateThirdParties,
+  countSitesByCategory,
+  getThirdPartyCategoryLabel,
+} from '@/utils/thirdParties';
+
+type ThirdPartySort = 'sites' | 'blockingTime' | 'mainThreadTime' | 'transferSize';
+
+const SORT_LABELS: Record<ThirdPartySort, string> = {
+  sites: 'Number of sites',
+  blockingTime: 'Total blocking time',
+  mainThreadTime: 'Total main-thread time',
+  transferSize: 'Total transfer size',
+};
+
+const SORT_VALUES: Record<ThirdPartySort, (usage: ThirdPartyUsage) => number> = {
+  sites: (usage) => usage.countries.length,
+  blockingTime: (usage) => usage.totalBlockingTime ?? -1,
+  mainThreadTime: (usage) => usage.totalMainThreadTime,
+  transferSize: (usage) => usage.totalTransferSize,
+};
+
+// Third parties are only kept in the detail files
+const summarizeThirdParties = (details: CountryReport[]) => ({
+  usages: aggregateThirdParties(details),
+  siteCount: details.filter((report) => report.metrics.thirdParties).length,
+});
+
+function LoadingThirdParties() {
+  return (
+    <>
+      <Header />
+      <div className="page-container" style={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '50vh' }}>
+        <Loading description="Loading third-party data..." withOverlay={false} />
+      </div>
+    </>
+  );
+}
+
+// useSearchParams needs a Suspense boundary to be statically exported
+export default function ThirdPartiesPage() {
+  return (
+    <Suspense fallback={<LoadingThirdParties />}>
+      <ThirdPartiesView />
+    </Suspense>
+  );
+}
+
+function ThirdPartiesView() {
+  const searchParams = useSearchParams();
+  const { months, month, formFactor, data, loading, error, updateView } = useMonthDetails(
+    summarizeThirdParties,
+    'Failed to load third-party data'
+  );
+
+  if (loading) {
+    return <LoadingThirdParties />;
+  }
+
+  if (error || !month || !data) {
+    return (
+      <>
+        <Header />
+        <div className="page-container">
+          <h1>Error loading data</h1>
+          <p>{error || 'No data available'}</p>
+        </div>
+      </>
+    );
+  }
+
+  const { usages, siteCount } = data;
+  const baseUrl = process.env.NODE_ENV === 'production' ? '/gov-web-performance' : '';
+  const categoryCounts = countSitesByCategory(usages);
+  // Lighthouse 13 and later no longer report blocking time per third party
+  const hasBlockingTime = usages.some((usage) => usage.totalBlockingTime !== null);
+  const sortOptions = (Object.keys(SORT_LABELS) as ThirdPartySort[])
+    .filter((key) => hasBlockingTime || key !== 'blockingTime');
+  const sortParam = searchParams.get('sort') as ThirdPartySort | null;
+  const sort = sortParam && sortOptions.includes(sortParam) ? sortParam : 'sites';
+  const categoryParam = searchParams.get('category');
+  const category = categoryParam && categoryCounts.some((count) => count.category === categoryParam) ? categoryParam : 'all';
+  const visibleUsages = usages
+    .filter((usage) => category === 'all' || usage.category === category)
+    .sort((a, b) => SORT_VALUES[sort](b) - SORT_VALUES[sort](a) || a.name.localeCompare(b.name));
+
+  const headers = [
+    { key: 'name', header: 'Third party' },
+    { key: 'category', header: 'Category' },
+    { key: 'siteCount', header: 'Sites' },
+    { key: 'transferSize', header: 'Total transfer size' },
+    { key: 'blockingTime', header: 'Total blocking time' },
+    { key: 'mainThreadTime', header: 'Total main-thread time' },
+  ].filter((header) => hasBlockingTime || header.key !== 'blockingTime');
+
+  const rows = visibleUsages.map((usage) => ({
+    id: usage.name,
+    name: usage.name,
+    category: usage.category,
+    siteCount: usage.countries.length,
+    transferSize: formatBytes(usage.totalTransferSize),
+    blockingTime: formatTiming(usage.totalBlockingTime),
+    mainThreadTime: formatTiming(usage.totalMainThreadTime),
+  }));
+
+  return (
+    <>
+      <Header />
+      <main className="page-container">
+        <Grid>
+          <Column lg={16} md={8} sm={4}>
+            <div style={{ marginBottom: '2rem' }}>
+              <h1 style={{ fontSize: '2.5rem', fontWeight: 700, marginBottom: '1rem' }}>
+                Third parties on government websites
+              </h1>
+              <p style={{ fontSize: '1.125rem', color: 'var(--cds-text-secondary)', maxWidth: '800px' }}>
+                Analytics, advertising, social media and other third-party services loaded by government
+                homepages, and what they cost in download size and main-thread work. Expand a third party to see
+                the sites that load it.
+              </p>
+            </div>
+          </Column>
+
+          <Column lg={4} md={4} sm={4}>
+            <Select
+              id="third-parties-month"
+              labelText="Month"
+              value={month}
+              onChange={(e) => updateView({ month: e.target.value })}
+              style={{ marginBottom: '2rem' }}
+            >
+              {months.map((m) => (
+                <SelectItem key={m} value={m} text={formatMonth(m)} />
+              ))}
+            </Select>
+          </Column>
+
+          <Column lg={4} md={4} sm={4}>
+            <Select
+              id="third-parties-category"
+              labelText="Category"
+              value={category}
+              onChange={(e) => updateView({ category: e.target.value })}
+              style={{ marginBottom: '2rem' }}
+            >
+              <SelectItem value="all" text="All categories" />
+              {categoryCounts.map(({ category: key }) => (
+                <SelectItem key={key} value={key} text={getThirdPartyCategoryLabel(key)} />
+              ))}
+            </Select>
+          </Column>
+
+          <Column lg={4} md={4} sm={4}>
+            <Select
+              id="third-parties-sort"
+              labelText="Sort by"
+              value={sort}
+              onChange={(e) => updateView({ sort: e.target.value })}
+              style={{ marginBottom: '2rem' }}
+            >
+              {sortOptions.map((key) => (
+                <SelectItem key={key} value={key} text={SORT_LABELS[key]} />
+              ))}
+            </Select>
+          </Column>
+
+          <Column lg={16} md={8} sm={4}>
+            <FormFactorSwitch value={formFactor} onChange={(value) => updateView({ formFactor: value })} />
+          </Column>
+
+          {siteCount === 0 ? (
+            <Column lg={16} md={8} sm={4}>
+              <p style={{ color: 'var(--cds-text-secondary)' }}>
+                Third parties were not collected for {formFactor} audits in {formatMonth(month)}.
+              </p>
+            </Column>
+          ) : (
+            <>
+              <Column lg={16} md={8} sm={4}>
+                <h2 style={{ fontSize: '1.5rem', fontWeight: 600, marginBottom: '1rem' }}>
+                  Sites by category
+                </h2>
+                <p style={{ lineHeight: 2, marginBottom: '2rem' }}>
+                  {categoryCounts.map(({ category: key, siteCount: count }) => (
+                    <Tag key={key} type={POLICY_CATEGORIES.includes(key) ? 'magenta' : 'gray'}>
+                      {getThirdPartyCategoryLabel(key)}: {count} of {siteCount} sites
+                    </Tag>
+                  ))}
+                </p>
+              </Column>
+
+              <Column lg={16} md={8} sm={4}>
+                <p style={{ color: 'var(--cds-text-secondary)', marginBottom: '1rem' }}>
+                  {visibleUsages.length} third parties across {siteCount} audited sites.
+                  {!hasBlockingTime && ' Lighthouse 13 and later report main-thread time instead of blocking time.'}
+                </p>
+                <DataTable rows={rows} headers={headers}>
+                  {({ rows, headers, getTableProps, getHeaderProps, getRowProps, getExpandHeaderProps }: any) => (
+                    <TableContainer>
+                      <Table {...getTableProps()}>
+                        <TableHead>
+                          <TableRow>
+                            <TableExpandHeader {...getExpandHeaderProps()} />
+                            {headers.map((header: any) => (
+                              <TableHeader {...getHeaderProps({ header })} key={header.key}>
+                                {header.header}
+                              </TableHeader>
+                            ))}
+                          </TableRow>
+                        </TableHead>
+                        <TableBody>
+                          {rows.map((row: any) => {
+                            const usage = visibleUsages.find((u) => u.name === row.id)!;
+
+                            return (
+                              <Fragment key={row.id}>
+                                <TableExpandRow {...getRowProps({ row })}>
+                                  {row.cells.map((cell: any) => {
+                                    if (cell.info.header === 'category') {
+                                      return (
+                                        <TableCell key={cell.id}>
+                                          <Tag type={POLICY_CATEGORIES.includes(cell.value) ? 'magenta' : 'gray'} size="sm">
+                                            {getThirdPartyCategoryLabel(cell.value)}
+                                          </Tag>
+                                        </TableCell>
+                                      );
+                                    }
+                                    if (cell.info.header === 'siteCount') {
+                                      return (
+                                        <TableCell key={cell.id}>
+                                          <strong>{cell.value}</strong> / {siteCount}
+                                        </TableCell>
+                                      );
+                                    }
+                                    return <TableCell key={cell.id}>{cell.value}</TableCell>;
+                                  })}
+                                </TableExpandRow>
+                                {row.isExpanded && (
+                                  <TableExpandedRow colSpan={headers.length + 1}>
+                                    <div style={{ padding: '1rem 0' }}>
+                                      <h4 style={{ fontSize: '0.875rem', fontWeight: 600, marginBottom: '0.5rem' }}>
+                                        Loaded by
+                                      </h4>
+                                      <ul style={{ lineHeight: 1.8 }}>
+                                        {usage.countries.map((country) => (
+                                          <li key={country.tld}>
+                                            <Link href={`${baseUrl}/country/${country.tld}/${month}`}>{country.country}</Link>
+                                            {' '}· {formatBytes(country.transferSize)}
+                                            {country.blockingTime !== null && ` · ${formatTiming(country.blockingTime)} blocking`}
+                                            {country.mainThreadTime !== null && ` · ${formatTiming(country.mainThreadTime)} main thread`}
+                                          </li>
+                                        ))}
+                                      </ul>
+                                    </div>
+                                  </TableExpandedRow>
+                                )}
+                              </Fragment>
+                            );
+                          })}
+                        </TableBody>
+                      </Table>
+                    </TableContainer>
+                  )}
+                </DataTable>
+              </Column>
+            </>
+          )}
+        </Grid>
+      </main>
+    </>
+  );
+}
@@ -0,0 +1,236 @@
+'use client';
+
+import { Suspense } from 'react';
+import { useSearchParams } from 'next/navigation';
+import {
+  Table,
+  TableHead,
+  TableRow,
+  TableHeader,
+  TableBody,
+  TableCell,
+  TableContainer,
+  Loading,
+  Grid,
+  Column,
+  Select,
+  SelectItem,
+  Link,
+} from '@carbon/react';
+import Header from '@/components/Header';
+import FormFactorSwitch from '@/components/FormFactorSwitch';
+import VitalRatingTag from '@/components/VitalRatingTag';
+import VitalsDistributionChart from '@/components/VitalsDistributionChart';
+import { CountryReport, TimingMetrics } from '@/types';
+import { useMonthDetails } from '@/hooks/useMonthDetails';
+import {
+  formatMonth,
+  formatTiming,
+} from '@/utils/dataLoader';
+import {
+  CORE_WEB_VITALS,
+  TIMING_METRICS,
+  classifyVital,
+  getCountryVitals,
+  getTimingMetricLabel,
+  getVitalDistribution,
+  isVitalMetric,
+  sortByTimingMetric,
+  sortByVitals,
+} from '@/utils/webVitals';
+
+type VitalsSort = keyof TimingMetrics | 'coreWebVitals';
+
+// Columns always shown in the ranking; the metric ranked by is added when it is not one of them
+const RANKING_COLUMNS: (keyof TimingMetrics)[] = [...CORE_WEB_VITALS, 'firstContentfulPaint', 'timeToFirstByte'];
+
+const summarizeVitals = (details: CountryReport[]) => ({
+  vitals: getCountryVitals(details),
+  countryCount: details.length,
+});
+
+function LoadingVitals() {
+  return (
+    <>
+      <Header />
+      <div className="page-container" style={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '50vh' }}>
+        <Loading description="Loading Web Vitals..." withOverlay={false} />
+      </div>
+    </>
+  );
+}
+
+// useSearchParams needs a Suspense boundary to be statically exported
+export default function VitalsPage() {
+  return (
+    <Suspense fallback={<LoadingVitals />}>
+      <VitalsView />
+    </Suspense>
+  );
+}
+
+function VitalsView() {
+  const searchParams = useSearchParams();
+  const { months, month, formFactor, data, loading, error, updateView } = useMonthDetails(
+    summarizeVitals,
+    'Failed to load timing data'
+  );
+  const sortParam = searchParams.get('sort') as VitalsSort | null;
+  const sort = sortParam && TIMING_METRICS.some(({ key }) => key === sortParam) ? sortParam : 'coreWebVitals';
+
+  if (loading) {
+    return <LoadingVitals />;
+  }
+
+  if (error || !month || !data) {
+    return (
+      <>
+        <Header />
+        <div className="page-container">
+          <h1>Error loading data</h1>
+          <p>{error || 'No data available'}</p>
+        </div>
+      </>
+    );
+  }
+
+  const { vitals, countryCount } = data;
+
+  const baseUrl = process.env.NODE_ENV === 'production' ? '/gov-web-performance' : '';
+  const ranked = sort === 'coreWebVitals' ? sortByVitals(vitals) : sortByTimingMetric(vitals, sort);
+  const columns = sort === 'coreWebVitals' || RANKING_COLUMNS.includes(sort) ? RANKING_COLUMNS : [...RANKING_COLUMNS, sort];
+  const passingCount = vitals.filter((entry) => entry.assessment === 'good').length;
+
+  return (
+    <>
+      <Header />
+      <main className="page-container">
+        <Grid>
+          <Column lg={16} md={8} sm={4}>
+            <div style={{ marginBottom: '2rem' }}>
+              <h1 style={{ fontSize: '2.5rem', fontWeight: 700, marginBottom: '1rem' }}>
+                Core Web Vitals
+              </h1>
+              <p style={{ fontSize: '1.125rem', color: 'var(--cds-text-secondary)', maxWidth: '800px' }}>
+                How government homepages perform against the published Web Vitals thresholds. The audits run in a
+                lab, so Total Blocking Time stands in for Interaction to Next Paint, which needs real user input.
+                A site passes the assessment when Largest Contentful Paint, Cumulative Layout Shift and Total
+                Blocking Time are all good.
+              </p>
+            </div>
+          </Column>
+
+          <Column lg={4} md={4} sm={4}>
+            <Select
+              id="vitals-month"
+              labelText="Month"
+              value={month}
+              onChange={(e) => updateView({ month: e.target.value })}
+              style={{ marginBottom: '2rem' }}
+            >
+              {months.map((m) => (
+                <SelectItem key={m} value={m} text={formatMonth(m)} />
+              ))}
+            </Select>
+          </Column>
+
+          <Column lg={4} md={4} sm={4}>
+            <Select
+              id="vitals-sort"
+              labelText="Rank by"
+              value={sort}
+              onChange={(e) => updateView({ sort: e.target.value })}
+              style={{ marginBottom: '2rem' }}
+            >
+              <SelectItem value="coreWebVitals" text="Core Web Vitals assessment" />
+              {TIMING_METRICS.map(({ key, label }) => (
+                <SelectItem key={key} value={key} text={label} />
+              ))}
+            </Select>
+          </Column>
+
+          <Column lg={16} md={8} sm={4}>
+            <FormFactorSwitch value={formFactor} onChange={(value) => updateView({ formFactor: value })} />
+          </Column>
+
+          {vitals.length === 0 ? (
+            <Column lg={16} md={8} sm={4}>
+              <p style={{ color: 'var(--cds-text-secondary)' }}>
+                No {formFactor} timing metrics are available for {formatMonth(month)}.
+              </p>
+            </Column>
+          ) : (
+            <>
+              <Column lg={16} md={8} sm={4}>
+                <p style={{ marginBottom: '1rem' }}>
+                  <strong>{passingCount}</strong> of {vitals.length} measured websites pass the Core Web Vitals
+                  assessment{countryCount > vitals.length && ` (${countryCount - vitals.length} audits did not complete)`}.
+                </p>
+              </Column>
+
+              <Column lg={16} md={8} sm={4}>
+                <h2 style={{ fontSize: '1.5rem', fontWeight: 600, marginTop: '1rem', marginBottom: '1rem' }}>
+                  Distribution across countries
+                </h2>
+                <VitalsDistributionChart distribution={getVitalDistribution(vitals)} />
+              </Column>
+
+              <Column lg={16} md={8} sm={4}>
+                <h2 style={{ fontSize: '1.5rem', fontWeight: 600, marginTop: '1rem', marginBottom: '1rem' }}>
+                  Ranking
+                </h2>
+                <TableContainer>
+                  <Table size="md">
+                    <TableHead>
+                      <TableRow>
+                        <TableHeader>Rank</TableHeader>
+                        <TableHeader>Country</TableHeader>
+                        <TableHeader>Assessment</TableHeader>
+                        {columns.map((key) => (
+                          <TableHeader key={key}>{getTimingMetricLabel(key)}</TableHeader>
+                        ))}
+                      </TableRow>
+                    </TableHead>
+                    <TableBody>
+                      {ranked.map((entry, index) => {
+                        // Countries missing the ranked value are listed last without a rank
+                        const isRanked = sort === 'coreWebVitals'
+                          ? entry.assessment !== null
+                          : typeof entry.timing[sort] === 'number';
+                        return (
+                          <TableRow key={entry.tld}>
+                            <TableCell>{isRanked ? index + 1 : '–'}</TableCell>
+                            <TableCell>
+                              <Link href={`${baseUrl}/country/${entry.tld}/${month}`}>{entry.country}</Link>
+                            </TableCell>
+                            <TableCell>
+                              {entry.assessment ? <VitalRatingTag rating={entry.assessment} /> : 'N/A'}
+                            </TableCell>
+                            {columns.map((key) => {
+                              const unit = TIMING_METRICS.find((metric) => metric.key === key)?.unit;
+                              const value = entry.timing[key] ?? null;
+                              return (
+                                <TableCell key={key}>
+                                  {key === sort ? <strong>{formatTiming(value, unit)}</strong> : formatTiming(value, unit)}
+                                  {isVitalMetric(key) && (
+                                    <div>
+                                      <VitalRatingTag rating={classifyVital(key, value)} />
+                                    </div>
+                                  )}
+                                </TableCell>
+                              );
+                            })}
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </TableContainer>
+              </Column>
+            </>
+          )}
+        </Grid>
+      </main>
+    </>
+  );
+}
@@ -0,0 +1,195 @@
+'use client';
+
+import { Suspense } from 'react';
+import { useSearchParams } from 'next/navigation';
+import {
+  Table,
+  TableHead,
+  TableRow,
+  TableHeader,
+  TableBody,
+  TableCell,
+  TableContainer,
+  Loading,
+  Grid,
+  Column,
+  Select,
+  SelectItem,
+  Link,
+} from '@carbon/react';
+import Header from '@/components/Header';
+import FormFactorSwitch from '@/components/FormFactorSwitch';
+import { CountryPageWeight, ResourceType } from '@/types';
+import { useMonthDetails } from '@/hooks/useMonthDetails';
+import {
+  formatBytes,
+  formatMonth,
+} from '@/utils/dataLoader';
+import { RESOURCE_TYPE_LABELS, getHeaviestPages, getThirdPartyShare } from '@/utils/pageWeight';
+
+type WeightSort = ResourceType | 'total';
+
+// Resource types shown as columns, in addition to the total
+const WEIGHT_COLUMNS: ResourceType[] = ['script', 'image', 'stylesheet', 'font', 'document', 'thirdParty'];
+
+const getTransferSize = (entry: CountryPageWeight, sort: WeightSort) =>
+  sort === 'total' ? entry.pageWeight.transferSize : entry.pageWeight.resources[sort]?.transferSize ?? 0;
+
+function LoadingWeight() {
+  return (
+    <>
+      <Header />
+      <div className="page-container" style={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '50vh' }}>
+        <Loading description="Loading page weights..." withOverlay={false} />
+      </div>
+    </>
+  );
+}
+
+// useSearchParams needs a Suspense boundary to be statically exported
+export default function PageWeightPage() {
+  return (
+    <Suspense fallback={<LoadingWeight />}>
+      <PageWeightView />
+    </Suspense>
+  );
+}
+
+function PageWeightView() {
+  const searchParams = useSearchParams();
+  const { months, month, formFactor, data: pages, loading, error, updateView } = useMonthDetails(
+    getHeaviestPages,
+    'Failed to load page weight data'
+  );
+  const sortParam = searchParams.get('sort') as WeightSort | null;
+  const sort = sortParam && sortParam in RESOURCE_TYPE_LABELS ? sortParam : 'total';
+
+  if (loading) {
+    return <LoadingWeight />;
+  }
+
+  if (error || !month || !pages) {
+    return (
+      <>
+        <Header />
+        <div className="page-container">
+          <h1>Error loading data</h1>
+          <p>{error || 'No data available'}</p>
+        </div>
+      </>
+    );
+  }
+
+  const baseUrl = process.env.NODE_ENV === 'production' ? '/gov-web-performance' : '';
+  const ranked = [...pages].sort((a, b) =>
+    getTransferSize(b, sort) - getTransferSize(a, sort) || a.country.localeCompare(b.country)
+  );
+
+  return (
+    <>
+      <Header />
+      <main className="page-container">
+        <Grid>
+          <Column lg={16} md={8} sm={4}>
+            <div style={{ marginBottom: '2rem' }}>
+              <h1 style={{ fontSize: '2.5rem', fontWeight: 700, marginBottom: '1rem' }}>
+                Heaviest homepages
+              </h1>
+              <p style={{ fontSize: '1.125rem', color: 'var(--cds-text-secondary)', maxWidth: '800px' }}>
+                How much each government homepage downloads on first load, broken down by resource type. Heavy
+                pages are slow and costly on mobile data plans. Third-party requests are also counted under
+                their resource type.
+              </p>
+            </div>
+          </Column>
+
+          <Column lg={4} md={4} sm={4}>
+            <Select
+              id="weight-month"
+              labelText="Month"
+              value={month}
+              onChange={(e) => updateView({ month: e.target.value })}
+              style={{ marginBottom: '2rem' }}
+            >
+              {months.map((m) => (
+                <SelectItem key={m} value={m} text={formatMonth(m)} />
+              ))}
+            </Select>
+          </Column>
+
+          <Column lg={4} md={4} sm={4}>
+            <Select
+              id="weight-sort"
+              labelText="Rank by"
+              value={sort}
+              onChange={(e) => updateView({ sort: e.target.value })}
+              style={{ marginBottom: '2rem' }}
+            >
+              <SelectItem value="total" text="Total transfer size" />
+              {WEIGHT_COLUMNS.map((type) => (
+                <SelectItem key={type} value={type} text={RESOURCE_TYPE_LABELS[type]} />
+              ))}
+            </Select>
+          </Column>
+
+          <Column lg={16} md={8} sm={4}>
+            <FormFactorSwitch value={formFactor} onChange={(value) => updateView({ formFactor: value })} />
+          </Column>
+
+          <Column lg={16} md={8} sm={4}>
+            {ranked.length === 0 ? (
+              <p style={{ color: 'var(--cds-text-secondary)' }}>
+                Page weight was not collected for {formFactor} audits in {formatMonth(month)}.
+              </p>
+            ) : (
+              <TableContainer>
+                <Table size="md">
+                  <TableHead>
+                    <TableRow>
+                      <TableHeader>Rank</TableHeader>
+                      <TableHeader>Country</TableHeader>
+                      <TableHeader>Total</TableHeader>
+                      <TableHeader>Requests</TableHeader>
+                      {WEIGHT_COLUMNS.map((type) => (
+                        <TableHeader key={type}>{RESOURCE_TYPE_LABELS[type]}</TableHeader>
+                      ))}
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {ranked.map((entry, index) => (
+                      <TableRow key={entry.tld}>
+                        <TableCell>{index + 1}</TableCell>
+                        <TableCell>
+                          <Link href={`${baseUrl}/country/${entry.tld}/${month}`}>{entry.country}</Link>
+                        </TableCell>
+                        <TableCell>
+                          {sort === 'total'
+                            ? <strong>{formatBytes(entry.pageWeight.transferSize)}</strong>
+                            : formatBytes(entry.pageWeight.transferSize)}
+                        </TableCell>
+                        <TableCell>{entry.pageWeight.requestCount}</TableCell>
+                        {WEIGHT_COLUMNS.map((type) => {
+                          const size = formatBytes(getTransferSize(entry, type));
+                          return (
+                            <TableCell key={type}>
+                              {sort === type ? <strong>{size}</strong> : size}
+                              {type === 'thirdParty' && (
+                                <div style={{ fontSize: '0.75rem', color: 'var(--cds-text-secondary)' }}>
+                                  {getThirdPartyShare(entry)}% of total
+                                </div>
+                              )}
+                            </TableCell>
+                          );
+                        })}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            )}
+          </Column>
+        </Grid>
+      </main>
+    </>
+  );
+}
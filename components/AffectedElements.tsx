@@ -0,0 +1,58 @@
+'use client';
+
+import { AuditElement } from '@/types';
+
+interface AffectedElementsProps {
+  elements: AuditElement[];
+  elementCount: number; // All flagged elements, including those beyond the stored cap
+}
+
+const codeStyle = {
+  fontFamily: "'IBM Plex Mono', monospace",
+  fontSize: '0.75rem',
+  wordBreak: 'break-all' as const,
+};
+
+export default function AffectedElements({ elements, elementCount }: AffectedElementsProps) {
+  return (
+    <div style={{ marginBottom: '1.5rem' }}>
+      <h4 style={{ fontSize: '0.875rem', fontWeight: 600, marginBottom: '0.5rem' }}>
+        Affected elements ({elementCount})
+      </h4>
+      {elementCount > elements.length && (
+        <p style={{ fontSize: '0.875rem', color: 'var(--cds-text-secondary)', marginBottom: '0.5rem' }}>
+          Showing the first {elements.length}. Run Lighthouse or axe on the page to list the rest.
+        </p>
+      )}
+      <ol style={{ listStyle: 'none' }}>
+        {elements.map((element, i) => (
+          <li
+            key={`${element.selector}-${i}`}
+            style={{ padding: '0.75rem 0', borderTop: '1px solid var(--cds-border-subtle)' }}
+          >
+            {element.nodeLabel && <p style={{ fontWeight: 600, marginBottom: '0.25rem' }}>{element.nodeLabel}</p>}
+            {element.selector && (
+              <p style={{ marginBottom: '0.25rem' }}>
+                <code style={codeStyle}>{element.selector}</code>
+              </p>
+            )}
+            {element.snippet && (
+              <pre style={{ ...codeStyle, whiteSpace: 'pre-wrap', backgroundColor: 'var(--cds-layer-01)', padding: '0.5rem', marginBottom: '0.25rem' }}>
+                {element.snippet}
+              </pre>
+            )}
+            {element.explanation && (
+              <p style={{ fontSize: '0.875rem', whiteSpace: 'pre-wrap', marginBottom: '0.25rem' }}>{element.explanation}</p>
+            )}
+            {element.boundingRect && (
+              <p style={{ fontSize: '0.75rem', color: 'var(--cds-text-secondary)' }}>
+                {Math.round(element.boundingRect.width)} × {Math.round(element.boundingRect.height)} px at
+                {' '}{Math.round(element.boundingRect.left)}, {Math.round(element.boundingRect.top)} from the top left of the page
+              </p>
+            )}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
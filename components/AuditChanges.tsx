@@ -0,0 +1,80 @@
+'use client';
+
+import { Tag, Tile } from '@carbon/react';
+import { AuditChange, AuditDiff } from '@/types';
+import { RANKING_METRIC_LABELS } from '@/utils/dataLoader';
+
+interface AuditChangesProps {
+  diff: AuditDiff;
+}
+
+const formatAuditScore = (score: number | null): string =>
+  score === null ? 'passed' : String(Math.round(score * 100));
+
+function AuditChangeList({ title, changes, emptyText }: { title: string; changes: AuditChange[]; emptyText: string }) {
+  return (
+    <Tile style={{ marginBottom: '1rem' }}>
+      <h3 style={{ fontSize: '1rem', fontWeight: 600, marginBottom: '0.75rem' }}>
+        {title} ({changes.length})
+      </h3>
+      {changes.length === 0 ? (
+        <p style={{ color: 'var(--cds-text-secondary)' }}>{emptyText}</p>
+      ) : (
+        <ul style={{ listStyle: 'none', lineHeight: 1.6 }}>
+          {changes.map((change) => (
+            <li
+              key={`${change.category}-${change.audit.id}`}
+              style={{ display: 'flex', gap: '0.75rem', alignItems: 'baseline', padding: '0.25rem 0', flexWrap: 'wrap' }}
+            >
+              <Tag type="gray" size="sm">{RANKING_METRIC_LABELS[change.category]}</Tag>
+              <span style={{ flex: 1 }}>{change.audit.title}</span>
+              <span style={{ fontSize: '0.875rem', color: 'var(--cds-text-secondary)' }}>
+                {change.type === 'new'
+                  ? `score ${formatAuditScore(change.currentScore)}`
+                  : change.type === 'not-audited'
+                    ? `score ${formatAuditScore(change.previousScore)} → not audited`
+                    : `score ${formatAuditScore(change.previousScore)} → ${formatAuditScore(change.currentScore)}`}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </Tile>
+  );
+}
+
+export default function AuditChanges({ diff }: AuditChangesProps) {
+  return (
+    <>
+      <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap', marginBottom: '1.5rem' }}>
+        <Tag type="red">{diff.new.length} newly failing</Tag>
+        <Tag type="magenta">{diff.regressed.length} regressed</Tag>
+        <Tag type="green">{diff.resolved.length} resolved</Tag>
+        <Tag type="gray">{diff.persisting.length} still open</Tag>
+        {diff.notAudited.length > 0 && <Tag type="outline">{diff.notAudited.length} not audited</Tag>}
+      </div>
+      <AuditChangeList
+        title="Newly failing"
+        changes={diff.new}
+        emptyText="No audits started failing this month."
+      />
+      <AuditChangeList
+        title="Regressed"
+        changes={diff.regressed}
+        emptyText="No failing audit got worse this month."
+      />
+      <AuditChangeList
+        title="Resolved"
+        changes={diff.resolved}
+        emptyText="No previously failing audits were fixed this month."
+      />
+      {diff.notAudited.length > 0 && (
+        <AuditChangeList
+          title="Not audited this month"
+          changes={diff.notAudited}
+          emptyText=""
+        />
+      )}
+    </>
+  );
+}
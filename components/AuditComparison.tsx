@@ -0,0 +1,252 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  Loading,
+  Select,
+  SelectItem,
+  Table,
+  TableHead,
+  TableRow,
+  TableHeader,
+  TableBody,
+  TableCell,
+  TableContainer,
+  Tag,
+  Toggle,
+} from '@carbon/react';
+import { CheckmarkFilled, CircleDash, ErrorFilled, Subtract } from '@carbon/icons-react';
+import { AuditComparisonRow, CategorizedAudits, CountryReport, FormFactor } from '@/types';
+import {
+  fetchCountryDetail,
+  formatTiming,
+  RANKING_METRIC_LABELS,
+  SCORE_CATEGORIES,
+} from '@/utils/dataLoader';
+import { isAuditSuccessful } from '@/utils/auditStatus';
+import { compareAudits } from '@/utils/auditComparison';
+import { TIMING_METRICS, classifyVital, isVitalMetric, normalizeTiming } from '@/utils/webVitals';
+import VitalRatingTag from '@/components/VitalRatingTag';
+
+interface AuditComparisonProps {
+  month: string;
+  formFactor: FormFactor;
+  tlds: string[];
+}
+
+const baseUrl = process.env.NODE_ENV === 'production' ? '/gov-web-performance' : '';
+
+function ResultCell({ result, score }: AuditComparisonRow['results'][string]) {
+  if (result === 'no-data') {
+    return (
+      <span style={{ display: 'flex', alignItems: 'center', gap: '0.25rem', color: 'var(--cds-text-secondary)' }}>
+        <Subtract size={16} /> No data
+      </span>
+    );
+  }
+  if (result === 'not-audited') {
+    return (
+      <span style={{ display: 'flex', alignItems: 'center', gap: '0.25rem', color: 'var(--cds-text-secondary)' }}>
+        <CircleDash size={16} /> Not audited
+      </span>
+    );
+  }
+  if (result === 'pass') {
+    return (
+      <span style={{ display: 'flex', alignItems: 'center', gap: '0.25rem' }}>
+        <CheckmarkFilled size={16} className="score-excellent" /> Pass
+      </span>
+    );
+  }
+  return (
+    <span style={{ display: 'flex', alignItems: 'center', gap: '0.25rem' }}>
+      <ErrorFilled size={16} className="score-poor" /> Fail{score !== null && ` (${Math.round(score * 100)})`}
+    </span>
+  );
+}
+
+export default function AuditComparison({ month, formFactor, tlds }: AuditComparisonProps) {
+  const [details, setDetails] = useState<CountryReport[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [category, setCategory] = useState<keyof CategorizedAudits | 'all'>('all');
+  const [differencesOnly, setDifferencesOnly] = useState(false);
+  const tldKey = tlds.join(',');
+
+  useEffect(() => {
+    // Drop the response of a selection that has since changed
+    let ignore = false;
+
+    async function loadDetails() {
+      setLoading(true);
+      try {
+        const reports = await Promise.all(
+          tldKey.split(',').filter(Boolean).map((tld) => fetchCountryDetail(month, tld, formFactor))
+        );
+        if (!ignore) {
+          setDetails(reports.filter((report): report is CountryReport => report !== null));
+        }
+      } finally {
+        if (!ignore) {
+          setLoading(false);
+        }
+      }
+    }
+    loadDetails();
+
+    return () => {
+      ignore = true;
+    };
+  }, [month, formFactor, tldKey]);
+
+  if (loading) {
+    return <Loading description="Loading audit details..." withOverlay={false} small />;
+  }
+
+  if (details.length === 0) {
+    return (
+      <p style={{ color: 'var(--cds-text-secondary)' }}>
+        No detailed {formFactor} audits are available for the selected countries in this month.
+      </p>
+    );
+  }
+
+  const timedReports = details
+    .filter((report) => isAuditSuccessful(report) && report.metrics.timing)
+    .map((report) => ({ ...report, timing: normalizeTiming(report.metrics.timing!) }));
+  const rows = compareAudits(details).filter((row) =>
+    (category === 'all' || row.category === category) &&
+    (!differencesOnly || (row.passingTlds.length > 0 && row.failingTlds.length > 0))
+  );
+  const countryName = (tld: string) => details.find((report) => report.tld === tld)?.country ?? tld;
+
+  return (
+    <>
+      {timedReports.length > 0 && (
+        <>
+          <h3 style={{ fontSize: '1.25rem', fontWeight: 600, marginBottom: '1rem' }}>
+            Performance timing metrics
+          </h3>
+          <TableContainer style={{ marginBottom: '2rem' }}>
+            <Table size="md">
+              <TableHead>
+                <TableRow>
+                  <TableHeader>Metric</TableHeader>
+                  {timedReports.map((report) => (
+                    <TableHeader key={report.tld}>{report.country}</TableHeader>
+                  ))}
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {TIMING_METRICS.map(({ key, label, unit }) => {
+                  // Lower is better for every timing metric
+                  const values = timedReports
+                    .map((report) => report.timing[key])
+                    .filter((value): value is number => typeof value === 'number');
+                  // Metrics added later are missing from older reports
+                  if (values.length === 0) return null;
+                  const best = values.length > 1 ? Math.min(...values) : null;
+
+                  return (
+                    <TableRow key={key}>
+                      <TableCell>{label}</TableCell>
+                      {timedReports.map((report) => {
+                        const value = report.timing[key] ?? null;
+                        return (
+                          <TableCell key={report.tld}>
+                            {value === best ? <strong>{formatTiming(value, unit)}</strong> : formatTiming(value, unit)}
+                            {value === best && <Tag type="green" size="sm" style={{ marginLeft: '0.5rem' }}>Best</Tag>}
+                            {isVitalMetric(key) && (
+                              <div>
+                                <VitalRatingTag rating={classifyVital(key, value)} />
+                              </div>
+                            )}
+                          </TableCell>
+                        );
+                      })}
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </>
+      )}
+
+      <h3 style={{ fontSize: '1.25rem', fontWeight: 600, marginBottom: '0.5rem' }}>
+        Audit by audit
+      </h3>
+      <p style={{ color: 'var(--cds-text-secondary)', marginBottom: '1rem', maxWidth: '800px' }}>
+        Every audit failing on at least one of the selected websites. Audits that some countries already pass
+        while others fail are listed first, so the passing countries can be used as a reference. Reports from
+        before passed audits were recorded show audits they did not fail as not audited.
+      </p>
+      <div style={{ display: 'flex', gap: '2rem', alignItems: 'flex-end', flexWrap: 'wrap', marginBottom: '1rem' }}>
+        <Select
+          id="audit-comparison-category"
+          labelText="Category"
+          value={category}
+          onChange={(e) => setCategory(e.target.value as keyof CategorizedAudits | 'all')}
+          style={{ minWidth: '14rem' }}
+        >
+          <SelectItem value="all" text="All categories" />
+          {SCORE_CATEGORIES.map((key) => (
+            <SelectItem key={key} value={key} text={RANKING_METRIC_LABELS[key]} />
+          ))}
+        </Select>
+        <Toggle
+          id="audit-comparison-differences"
+          labelText="Show"
+          labelA="All audits"
+          labelB="Only where countries differ"
+          toggled={differencesOnly}
+          onToggle={(checked: boolean) => setDifferencesOnly(checked)}
+        />
+      </div>
+
+      {rows.length === 0 ? (
+        <p style={{ color: 'var(--cds-text-secondary)' }}>No audits to compare.</p>
+      ) : (
+        <TableContainer>
+          <Table size="md">
+            <TableHead>
+              <TableRow>
+                <TableHeader>Audit</TableHeader>
+                {details.map((report) => (
+                  <TableHeader key={report.tld}>{report.country}</TableHeader>
+                ))}
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {rows.map((row) => (
+                <TableRow key={`${row.category}:${row.id}`}>
+                  <TableCell>
+                    <strong>{row.title}</strong>
+                    <div style={{ fontSize: '0.75rem', color: 'var(--cds-text-secondary)' }}>
+                      {RANKING_METRIC_LABELS[row.category]} · {row.id}
+                    </div>
+                    {row.passingTlds.length > 0 && row.failingTlds.length > 0 && (
+                      <div style={{ fontSize: '0.75rem', marginTop: '0.25rem' }}>
+                        Solved by{' '}
+                        {row.passingTlds.map((tld, i) => (
+                          <span key={tld}>
+                            <a href={`${baseUrl}/country/${tld}/${month}`}>{countryName(tld)}</a>
+                            {i < row.passingTlds.length - 1 && ', '}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                  </TableCell>
+                  {details.map((report) => (
+                    <TableCell key={report.tld}>
+                      <ResultCell {...row.results[report.tld]} />
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,76 @@
+'use client';
+
+import { useState } from 'react';
+import { CodeSnippet, Select, SelectItem } from '@carbon/react';
+import { CountryRanking, FormFactor, RankingMetric } from '@/types';
+import { RANKING_METRICS, RANKING_METRIC_LABELS, formatMonth } from '@/utils/dataLoader';
+
+interface BadgeEmbedProps {
+  tld: string;
+  country: string;
+  formFactor: FormFactor;
+  month: string; // Latest month, which the badges are generated for
+  rankings: Partial<Record<RankingMetric, CountryRanking>>; // The country's latest ranking per metric
+}
+
+const baseUrl = process.env.NODE_ENV === 'production' ? '/gov-web-performance' : '';
+
+/**
+ * Badge path, mirroring the layout written by scripts/build-badges.js
+ */
+export function getBadgePath(tld: string, metric: RankingMetric, formFactor: FormFactor): string {
+  return formFactor === 'mobile'
+    ? `${baseUrl}/badges/${tld}/mobile/${metric}.svg`
+    : `${baseUrl}/badges/${tld}/${metric}.svg`;
+}
+
+export default function BadgeEmbed({ tld, country, formFactor, month, rankings }: BadgeEmbedProps) {
+  const [metric, setMetric] = useState<RankingMetric>('overall');
+
+  // Snippets are used on other sites, so they need absolute URLs
+  const origin = typeof window !== 'undefined' ? window.location.origin : '';
+  const badgeUrl = `${origin}${getBadgePath(tld, metric, formFactor)}`;
+  const pageUrl = `${origin}${baseUrl}/country/${tld}`;
+  const altText = `${country} ${RANKING_METRIC_LABELS[metric]} score on the Government web performance dashboard`;
+  const ranking = rankings[metric];
+
+  const htmlSnippet = `<a href="${pageUrl}"><img src="${badgeUrl}" alt="${altText}"></a>`;
+  const markdownSnippet = `[![${altText}](${badgeUrl})](${pageUrl})`;
+
+  return (
+    <div>
+      <Select
+        id={`badge-metric-${tld}`}
+        labelText="Metric"
+        value={metric}
+        onChange={(e) => setMetric(e.target.value as RankingMetric)}
+        style={{ maxWidth: '20rem', marginBottom: '1rem' }}
+      >
+        {RANKING_METRICS.map((m) => (
+          <SelectItem key={m} value={m} text={RANKING_METRIC_LABELS[m]} />
+        ))}
+      </Select>
+
+      <p style={{ marginBottom: '0.5rem' }}>
+        <img src={getBadgePath(tld, metric, formFactor)} alt={altText} height={20} />
+      </p>
+      <p style={{ fontSize: '0.875rem', color: 'var(--cds-text-secondary)', marginBottom: '1.5rem' }}>
+        {ranking?.rank !== undefined
+          ? `Shows a score of ${ranking.score} and rank #${ranking.rank} (${formFactor}, ${formatMonth(month)}).`
+          : `${country} has no ${formFactor} ${RANKING_METRIC_LABELS[metric]} score for ${formatMonth(month)}.`}
+        {' '}The badge updates automatically with every monthly audit.
+      </p>
+
+      <h4 style={{ fontSize: '0.875rem', fontWeight: 600, marginBottom: '0.5rem' }}>HTML</h4>
+      <div style={{ marginBottom: '1rem' }}>
+        <CodeSnippet type="multi" feedback="Copied to clipboard" wrapText>
+          {htmlSnippet}
+        </CodeSnippet>
+      </div>
+      <h4 style={{ fontSize: '0.875rem', fontWeight: 600, marginBottom: '0.5rem' }}>Markdown</h4>
+      <CodeSnippet type="multi" feedback="Copied to clipboard" wrapText>
+        {markdownSnippet}
+      </CodeSnippet>
+    </div>
+  );
+}
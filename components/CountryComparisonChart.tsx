@@ -0,0 +1,49 @@
+'use client';
+
+import { LineChart, ScaleTypes } from '@carbon/charts-react';
+import { CountryHistoricalData, RankingMetric } from '@/types';
+import { RANKING_METRIC_LABELS, formatMonth } from '@/utils/dataLoader';
+
+interface CountryComparisonChartProps {
+  histories: CountryHistoricalData[];
+  metric: RankingMetric;
+  months: string[]; // All months in the manifest, oldest first
+}
+
+export default function CountryComparisonChart({ histories, metric, months }: CountryComparisonChartProps) {
+  // Only ranked points carry a valid score for that month
+  const points = histories.flatMap((history) =>
+    history[metric]
+      .filter((point) => point.rank !== undefined)
+      .map((point) => ({
+        group: history.country,
+        month: formatMonth(point.month, 'short'),
+        score: point.value,
+      }))
+  );
+
+  const options = {
+    title: `${RANKING_METRIC_LABELS[metric]} over time`,
+    axes: {
+      bottom: {
+        title: 'Month',
+        mapsTo: 'month',
+        scaleType: ScaleTypes.LABELS,
+        domain: months.map((month) => formatMonth(month, 'short')),
+      },
+      left: {
+        title: 'Score',
+        mapsTo: 'score',
+        scaleType: ScaleTypes.LINEAR,
+        domain: [0, 100],
+      },
+    },
+    height: '400px',
+  };
+
+  return (
+    <div className="chart-container">
+      <LineChart data={points} options={options} />
+    </div>
+  );
+}
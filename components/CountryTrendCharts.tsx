@@ -0,0 +1,72 @@
+'use client';
+
+import { LineChart, ScaleTypes } from '@carbon/charts-react';
+import { CountryHistoricalData } from '@/types';
+import { RANKING_METRICS, RANKING_METRIC_LABELS, formatMonth } from '@/utils/dataLoader';
+
+interface CountryTrendChartsProps {
+  history: CountryHistoricalData;
+  months: string[]; // All months in the manifest, oldest first
+}
+
+export default function CountryTrendCharts({ history, months }: CountryTrendChartsProps) {
+  const monthLabels = months.map((month) => formatMonth(month, 'short'));
+
+  // Only ranked points carry a valid score for that month
+  const rankedPoints = RANKING_METRICS.flatMap((metric) =>
+    history[metric]
+      .filter((point) => point.rank !== undefined)
+      .map((point) => ({
+        group: RANKING_METRIC_LABELS[metric],
+        month: formatMonth(point.month, 'short'),
+        score: point.value,
+        rank: point.rank,
+      }))
+  );
+
+  const bottomAxis = {
+    title: 'Month',
+    mapsTo: 'month',
+    scaleType: ScaleTypes.LABELS,
+    domain: monthLabels,
+  };
+
+  const scoreOptions = {
+    title: 'Scores over time',
+    axes: {
+      bottom: bottomAxis,
+      left: {
+        title: 'Score',
+        mapsTo: 'score',
+        scaleType: ScaleTypes.LINEAR,
+        domain: [0, 100],
+      },
+    },
+    height: '400px',
+  };
+
+  const rankOptions = {
+    title: 'Rank positions over time (1 = best)',
+    axes: {
+      bottom: bottomAxis,
+      left: {
+        title: 'Rank',
+        mapsTo: 'rank',
+        scaleType: ScaleTypes.LINEAR,
+        includeZero: false,
+      },
+    },
+    height: '400px',
+  };
+
+  return (
+    <>
+      <div className="chart-container">
+        <LineChart data={rankedPoints} options={scoreOptions} />
+      </div>
+      <div className="chart-container">
+        <LineChart data={rankedPoints} options={rankOptions} />
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,227 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import {
+  ContentSwitcher,
+  Switch,
+  Table,
+  TableHead,
+  TableRow,
+  TableHeader,
+  TableBody,
+  TableCell,
+  TableContainer,
+} from '@carbon/react';
+import { CircleSolid } from '@carbon/icons-react';
+import { geoAzimuthalEqualArea, geoPath } from 'd3';
+import { feature } from 'topojson-client';
+import type { GeometryCollection, Topology } from 'topojson-specification';
+import type { FeatureCollection, Geometry } from 'geojson';
+import { CountryRanking } from '@/types';
+import { getScoreClass, getScoreLabel } from '@/components/MetricCard';
+
+interface MapShapeProperties {
+  name: string;
+  tld?: string; // Only set on audited countries; the rest are drawn for context
+}
+
+interface EuropeMapProps {
+  topology: Topology;
+  rankings: CountryRanking[];
+  metricLabel: string;
+  month: string;
+}
+
+const WIDTH = 800;
+const HEIGHT = 640;
+
+// Shapes smaller than this (in square pixels) are also drawn as a dot so microstates stay visible
+const MIN_VISIBLE_AREA = 40;
+
+// Frames mainland Europe; Russia, Turkey and the neighbours are clipped at the edges
+const EUROPE_FRAME = {
+  type: 'MultiPoint' as const,
+  coordinates: [[-24, 35], [42, 35], [-10, 71], [34, 71]],
+};
+
+const LEGEND = [
+  { label: 'Excellent (90+)', score: 90 },
+  { label: 'Good (75–89)', score: 75 },
+  { label: 'Fair (50–74)', score: 50 },
+  { label: 'Poor (below 50)', score: 0 },
+];
+
+const baseUrl = process.env.NODE_ENV === 'production' ? '/gov-web-performance' : '';
+
+export default function EuropeMap({ topology, rankings, metricLabel, month }: EuropeMapProps) {
+  const [view, setView] = useState<'map' | 'table'>('map');
+  const [activeTld, setActiveTld] = useState<string | null>(null);
+
+  const shapes = useMemo(() => {
+    const collection = feature(
+      topology,
+      topology.objects.countries as GeometryCollection<MapShapeProperties>
+    ) as FeatureCollection<Geometry, MapShapeProperties>;
+
+    const projection = geoAzimuthalEqualArea()
+      .rotate([-10, -52])
+      .fitExtent([[0, 0], [WIDTH, HEIGHT]], EUROPE_FRAME)
+      .clipExtent([[0, 0], [WIDTH, HEIGHT]]);
+    const path = geoPath(projection);
+
+    return collection.features.map((shape) => ({
+      name: shape.properties.name,
+      tld: shape.properties.tld,
+      d: path(shape) ?? '',
+      centroid: path.centroid(shape),
+      isSmall: path.area(shape) < MIN_VISIBLE_AREA,
+    }));
+  }, [topology]);
+
+  const rankingByTld = new Map(rankings.map((ranking) => [ranking.tld, ranking]));
+  const activeRanking = activeTld ? rankingByTld.get(activeTld) : undefined;
+
+  // Rankings without a rank have no valid score (failed audit or unscored category)
+  const describe = (ranking: CountryRanking | undefined): string =>
+    ranking?.rank !== undefined
+      ? `${ranking.score} (${getScoreLabel(ranking.score)}), ranked #${ranking.rank}`
+      : 'No score';
+
+  return (
+    <>
+      <ContentSwitcher
+        aria-label="Map view"
+        selectedIndex={view === 'map' ? 0 : 1}
+        onChange={({ name }: { name?: string | number }) => setView(name === 'table' ? 'table' : 'map')}
+        style={{ maxWidth: '20rem', marginBottom: '1.5rem' }}
+      >
+        <Switch name="map" text="Map" />
+        <Switch name="table" text="Table" />
+      </ContentSwitcher>
+
+      {view === 'map' ? (
+        <div className="chart-container" style={{ position: 'relative' }}>
+          <svg
+            viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+            style={{ width: '100%', height: 'auto', display: 'block' }}
+            role="group"
+            aria-label={`Map of Europe coloured by ${metricLabel} score. Use the table view for a text alternative.`}
+            onMouseLeave={() => setActiveTld(null)}
+          >
+            {shapes.filter((shape) => !shape.tld).map((shape, i) => (
+              <path
+                key={`context-${i}`}
+                d={shape.d}
+                style={{ fill: 'var(--cds-layer-accent-01)', stroke: 'var(--cds-background)' }}
+                strokeWidth={0.5}
+                aria-hidden="true"
+              />
+            ))}
+            {shapes.filter((shape) => shape.tld).map((shape) => {
+              const ranking = rankingByTld.get(shape.tld!);
+              const scoreClass = ranking?.rank !== undefined ? getScoreClass(ranking.score) : undefined;
+              const isActive = activeTld === shape.tld;
+              // CSS variables are not valid in SVG presentation attributes, so colours go through style
+              const shapeStyle = {
+                fill: scoreClass ? 'currentColor' : 'var(--cds-layer-accent-01)',
+                stroke: isActive ? 'var(--cds-text-primary)' : 'var(--cds-background)',
+              };
+
+              return (
+                <a
+                  key={shape.tld}
+                  href={`${baseUrl}/country/${shape.tld}/${month}`}
+                  aria-label={`${ranking?.country ?? shape.name}: ${describe(ranking)}`}
+                  className={scoreClass}
+                  onMouseEnter={() => setActiveTld(shape.tld!)}
+                  onFocus={() => setActiveTld(shape.tld!)}
+                  onBlur={() => setActiveTld(null)}
+                >
+                  <path
+                    d={shape.d}
+                    style={shapeStyle}
+                    strokeWidth={isActive ? 2 : 0.5}
+                  />
+                  {shape.isSmall && (
+                    <circle
+                      cx={shape.centroid[0]}
+                      cy={shape.centroid[1]}
+                      r={5}
+                      style={shapeStyle}
+                      strokeWidth={isActive ? 2 : 1}
+                    />
+                  )}
+                </a>
+              );
+            })}
+          </svg>
+
+          {activeTld && (
+            <div
+              aria-live="polite"
+              style={{
+                position: 'absolute',
+                top: '1.5rem',
+                left: '1.5rem',
+                padding: '0.75rem 1rem',
+                background: 'var(--cds-layer-02)',
+                border: '1px solid var(--cds-border-subtle-01)',
+                pointerEvents: 'none',
+              }}
+            >
+              <strong>{activeRanking?.country ?? shapes.find((shape) => shape.tld === activeTld)?.name}</strong>
+              <div style={{ fontSize: '0.875rem', color: 'var(--cds-text-secondary)' }}>
+                {metricLabel}: {describe(activeRanking)}
+              </div>
+            </div>
+          )}
+
+          <ul style={{ display: 'flex', gap: '1.5rem', flexWrap: 'wrap', listStyle: 'none', marginTop: '1rem', fontSize: '0.875rem' }}>
+            {LEGEND.map(({ label, score }) => (
+              <li key={label} style={{ display: 'flex', alignItems: 'center', gap: '0.375rem' }}>
+                <CircleSolid size={12} className={getScoreClass(score)} />
+                {label}
+              </li>
+            ))}
+            <li style={{ display: 'flex', alignItems: 'center', gap: '0.375rem' }}>
+              <CircleSolid size={12} style={{ color: 'var(--cds-layer-accent-01)' }} />
+              No score
+            </li>
+          </ul>
+        </div>
+      ) : (
+        <TableContainer>
+          <Table size="md">
+            <TableHead>
+              <TableRow>
+                <TableHeader>Rank</TableHeader>
+                <TableHeader>Country</TableHeader>
+                <TableHeader>{metricLabel} score</TableHeader>
+                <TableHeader>Rating</TableHeader>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {rankings.map((ranking) => (
+                <TableRow key={ranking.tld}>
+                  <TableCell>{ranking.rank ?? '–'}</TableCell>
+                  <TableCell>
+                    <a href={`${baseUrl}/country/${ranking.tld}/${month}`}>{ranking.country}</a>
+                  </TableCell>
+                  <TableCell>{ranking.rank !== undefined ? ranking.score : 'No score'}</TableCell>
+                  <TableCell>
+                    {ranking.rank !== undefined && (
+                      <span style={{ display: 'flex', alignItems: 'center', gap: '0.375rem' }}>
+                        <CircleSolid size={8} className={getScoreClass(ranking.score)} />
+                        {getScoreLabel(ranking.score)}
+                      </span>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,40 @@
+'use client';
+
+import { Button } from '@carbon/react';
+import { Download } from '@carbon/icons-react';
+import { ExportRow, downloadCsv, downloadJson } from '@/utils/export';
+
+interface ExportButtonsProps {
+  filename: string; // Without extension
+  rows: ExportRow[]; // Flat rows for the CSV file
+  json?: unknown; // Structured data for the JSON file, defaults to the rows
+  label?: string;
+}
+
+export default function ExportButtons({ filename, rows, json, label }: ExportButtonsProps) {
+  return (
+    <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center', flexWrap: 'wrap', marginBottom: '1rem' }}>
+      {label && (
+        <span style={{ fontSize: '0.875rem', color: 'var(--cds-text-secondary)' }}>{label}</span>
+      )}
+      <Button
+        kind="tertiary"
+        size="sm"
+        renderIcon={Download}
+        disabled={rows.length === 0}
+        onClick={() => downloadCsv(filename, rows)}
+      >
+        CSV
+      </Button>
+      <Button
+        kind="tertiary"
+        size="sm"
+        renderIcon={Download}
+        disabled={rows.length === 0}
+        onClick={() => downloadJson(filename, json ?? rows)}
+      >
+        JSON
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+'use client';
+
+import { Link } from '@carbon/react';
+import { PageScreenshots } from '@/types';
+import { formatTiming, getReportFileUrl } from '@/utils/dataLoader';
+
+interface FilmstripProps {
+  screenshots: PageScreenshots;
+  country: string;
+}
+
+export default function Filmstrip({ screenshots, country }: FilmstripProps) {
+  const { final, thumbnails } = screenshots;
+
+  return (
+    <div style={{ display: 'flex', gap: '2rem', flexWrap: 'wrap', alignItems: 'flex-start' }}>
+      {thumbnails.length > 0 && (
+        <ol
+          aria-label="Page load filmstrip"
+          style={{ display: 'flex', gap: '0.5rem', overflowX: 'auto', listStyle: 'none', flex: '1 1 30rem', paddingBottom: '0.5rem' }}
+        >
+          {thumbnails.map((frame) => (
+            <li key={frame.path} style={{ flexShrink: 0 }}>
+              <figure>
+                <img
+                  src={getReportFileUrl(frame.path)}
+                  alt={`${country} homepage at ${formatTiming(frame.timing)}`}
+                  loading="lazy"
+                  style={{ display: 'block', height: '10rem', border: '1px solid var(--cds-border-subtle)' }}
+                />
+                <figcaption style={{ fontSize: '0.75rem', color: 'var(--cds-text-secondary)', marginTop: '0.25rem', textAlign: 'center' }}>
+                  {formatTiming(frame.timing)}
+                </figcaption>
+              </figure>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {final && (
+        <figure style={{ flex: '0 0 auto' }}>
+          <Link href={getReportFileUrl(final.path)} target="_blank" rel="noopener noreferrer">
+            <img
+              src={getReportFileUrl(final.path)}
+              alt={`${country} homepage once loaded`}
+              loading="lazy"
+              style={{ display: 'block', maxHeight: '20rem', maxWidth: '100%', border: '1px solid var(--cds-border-subtle)' }}
+            />
+          </Link>
+          <figcaption style={{ fontSize: '0.75rem', color: 'var(--cds-text-secondary)', marginTop: '0.25rem' }}>
+            Final screenshot at {formatTiming(final.timing)}
+          </figcaption>
+        </figure>
+      )}
+    </div>
+  );
+}
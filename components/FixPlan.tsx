@@ -0,0 +1,91 @@
+'use client';
+
+import {
+  Table,
+  TableHead,
+  TableRow,
+  TableHeader,
+  TableBody,
+  TableCell,
+  TableContainer,
+  Tag,
+} from '@carbon/react';
+import { CategorizedAudits, FixPlanStep, SavingsMetric } from '@/types';
+import { RANKING_METRIC_LABELS, formatBytes, formatTiming } from '@/utils/dataLoader';
+import { SAVINGS_METRIC_LABELS } from '@/utils/fixPlan';
+
+interface FixPlanProps {
+  steps: FixPlanStep[];
+  scores: Record<keyof CategorizedAudits, number>; // Current category scores
+}
+
+const CATEGORY_TAG_TYPES = {
+  performance: 'blue',
+  accessibility: 'purple',
+  bestPractices: 'teal',
+  seo: 'cyan',
+} as const;
+
+// Each saving, with the metric's full name for the tooltip
+function describeSavings(step: FixPlanStep): { text: string; title: string }[] {
+  const savings = (Object.entries(step.metricSavings) as [SavingsMetric, number][]).map(([metric, value]) => ({
+    text: `${metric} −${formatTiming(value, metric === 'CLS' ? '' : 'ms')}`,
+    title: SAVINGS_METRIC_LABELS[metric],
+  }));
+  if (step.overallSavingsBytes !== null) {
+    savings.push({ text: `${formatBytes(step.overallSavingsBytes)} smaller`, title: 'Transfer size' });
+  }
+  // Older Lighthouse versions only estimated the time saved on the whole load
+  if (savings.length === 0 && step.overallSavingsMs !== null) {
+    savings.push({ text: `−${formatTiming(step.overallSavingsMs)} load time`, title: 'Page load time' });
+  }
+  return savings;
+}
+
+export default function FixPlan({ steps, scores }: FixPlanProps) {
+  return (
+    <TableContainer>
+      <Table size="md">
+        <TableHead>
+          <TableRow>
+            <TableHeader>Rank</TableHeader>
+            <TableHeader>Fix</TableHeader>
+            <TableHeader>Estimated savings</TableHeader>
+            <TableHeader>Points recovered</TableHeader>
+            <TableHeader>Projected score</TableHeader>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {steps.map((step, index) => {
+            const savings = describeSavings(step);
+            return (
+              <TableRow key={`${step.category}:${step.id}`}>
+                <TableCell>{index + 1}</TableCell>
+                <TableCell>
+                  <strong>{step.title}</strong>
+                  <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginTop: '0.25rem' }}>
+                    <Tag type={CATEGORY_TAG_TYPES[step.category]} size="sm">{RANKING_METRIC_LABELS[step.category]}</Tag>
+                    <span style={{ fontSize: '0.75rem', color: 'var(--cds-text-secondary)' }}>{step.id}</span>
+                  </div>
+                </TableCell>
+                <TableCell>
+                  {savings.length > 0 ? (
+                    savings.map(({ text, title }) => <div key={text} title={title}>{text}</div>)
+                  ) : (
+                    '–'
+                  )}
+                </TableCell>
+                <TableCell>
+                  <strong>+{step.points}</strong>
+                </TableCell>
+                <TableCell>
+                  {RANKING_METRIC_LABELS[step.category]}: {scores[step.category]} → <strong>{step.projectedScore}</strong>
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </TableContainer>
+  );
+}
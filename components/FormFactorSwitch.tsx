@@ -0,0 +1,33 @@
+'use client';
+
+import { ContentSwitcher, Switch } from '@carbon/react';
+import { FormFactor } from '@/types';
+import { FORM_FACTORS } from '@/utils/dataLoader';
+
+interface FormFactorSwitchProps {
+  value: FormFactor;
+  onChange: (formFactor: FormFactor) => void;
+}
+
+const FORM_FACTOR_LABELS: Record<FormFactor, string> = {
+  desktop: 'Desktop',
+  mobile: 'Mobile',
+};
+
+export default function FormFactorSwitch({ value, onChange }: FormFactorSwitchProps) {
+  return (
+    <ContentSwitcher
+      aria-label="Device profile"
+      selectedIndex={FORM_FACTORS.indexOf(value)}
+      onChange={({ name }: { name?: string | number }) => {
+        const formFactor = FORM_FACTORS.find((key) => key === name);
+        if (formFactor) onChange(formFactor);
+      }}
+      style={{ maxWidth: '20rem', marginBottom: '2rem' }}
+    >
+      {FORM_FACTORS.map((formFactor) => (
+        <Switch key={formFactor} name={formFactor} text={FORM_FACTOR_LABELS[formFactor]} />
+      ))}
+    </ContentSwitcher>
+  );
+}
@@ -28,6 +28,18 @@ export default function Header() {
         <HeaderMenuItem href={`${BASE_PATH}/compare`}>
           Compare
         </HeaderMenuItem>
+        <HeaderMenuItem href={`${BASE_PATH}/vitals`}>
+          Web Vitals
+        </HeaderMenuItem>
+        <HeaderMenuItem href={`${BASE_PATH}/weight`}>
+          Page weight
+        </HeaderMenuItem>
+        <HeaderMenuItem href={`${BASE_PATH}/third-parties`}>
+          Third parties
+        </HeaderMenuItem>
+        <HeaderMenuItem href={`${BASE_PATH}/audits`}>
+          Common issues
+        </HeaderMenuItem>
       </HeaderNavigation>
       <HeaderGlobalBar>
         <HeaderGlobalAction
@@ -2,29 +2,30 @@
 
 import { Tile } from '@carbon/react';
 import { ArrowUp, ArrowDown, Subtract, CircleSolid } from '@carbon/icons-react';
+import { ScoreVariance } from '@/types';
+import { getScoreBand } from '@/utils/reportScoring';
 
 interface MetricCardProps {
   title: string;
   score: number;
   previousScore?: number;
   description?: string;
+  variance?: ScoreVariance;
+  runs?: number;
 }
 
-function getScoreClass(score: number): string {
-  if (score >= 90) return 'score-excellent';
-  if (score >= 75) return 'score-good';
-  if (score >= 50) return 'score-fair';
-  return 'score-poor';
+export function getScoreClass(score: number): string {
+  return `score-${getScoreBand(score)}`;
 }
 
-function getScoreLabel(score: number): string {
+export function getScoreLabel(score: number): string {
   if (score >= 90) return 'Excellent';
   if (score >= 75) return 'Good';
   if (score >= 50) return 'Fair';
   return 'Poor';
 }
 
-export default function MetricCard({ title, score, previousScore, description }: MetricCardProps) {
+export default function MetricCard({ title, score, previousScore, description, variance, runs }: MetricCardProps) {
   const scoreClass = getScoreClass(score);
   const scoreLabel = getScoreLabel(score);
 
@@ -33,7 +34,8 @@ export default function MetricCard({ title, score, previousScore, description }:
   let changeClass = '';
 
   if (previousScore !== undefined) {
-    change = score - previousScore;
+    // Round to one decimal so fractional scores (e.g. the overall index) do not show float noise
+    change = Math.round((score - previousScore) * 10) / 10;
     if (change > 0) {
       changeIcon = <ArrowUp size={16} />;
       changeClass = 'rank-up';
@@ -73,6 +75,14 @@ export default function MetricCard({ title, score, previousScore, description }:
           </span>
         )}
       </div>
+      {variance && runs !== undefined && runs > 1 && (
+        <p
+          style={{ fontSize: '0.75rem', color: 'var(--cds-text-secondary)', marginBottom: '0.5rem' }}
+          title={`Standard deviation ${variance.stddev} across ${runs} runs`}
+        >
+          ±{variance.stddev} (range {variance.min}–{variance.max} over {runs} runs)
+        </p>
+      )}
       {description && (
         <p style={{ fontSize: '0.875rem', color: 'var(--cds-text-secondary)' }}>
           {description}
@@ -0,0 +1,36 @@
+'use client';
+
+import { Link } from '@carbon/react';
+import { ChevronLeft, ChevronRight } from '@carbon/icons-react';
+import { formatMonth } from '@/utils/dataLoader';
+
+interface MonthNavigationProps {
+  months: string[]; // Oldest first
+  currentMonth: string;
+  getHref: (month: string) => string;
+}
+
+export default function MonthNavigation({ months, currentMonth, getHref }: MonthNavigationProps) {
+  const index = months.indexOf(currentMonth);
+  const previousMonth = index > 0 ? months[index - 1] : undefined;
+  const nextMonth = index !== -1 && index < months.length - 1 ? months[index + 1] : undefined;
+
+  return (
+    <nav
+      aria-label="Report months"
+      style={{ display: 'flex', alignItems: 'center', gap: '1.5rem', flexWrap: 'wrap', marginBottom: '1.5rem' }}
+    >
+      {previousMonth && (
+        <Link href={getHref(previousMonth)} style={{ display: 'flex', alignItems: 'center', gap: '0.25rem' }}>
+          <ChevronLeft size={16} /> {formatMonth(previousMonth)}
+        </Link>
+      )}
+      <strong aria-current="page">{formatMonth(currentMonth)}</strong>
+      {nextMonth && (
+        <Link href={getHref(nextMonth)} style={{ display: 'flex', alignItems: 'center', gap: '0.25rem' }}>
+          {formatMonth(nextMonth)} <ChevronRight size={16} />
+        </Link>
+      )}
+    </nav>
+  );
+}
@@ -0,0 +1,42 @@
+'use client';
+
+import { SimpleBarChart, ScaleTypes } from '@carbon/charts-react';
+import { PageWeight } from '@/types';
+import { RESOURCE_TYPES_IN_TOTAL, RESOURCE_TYPE_LABELS } from '@/utils/pageWeight';
+
+interface PageWeightChartProps {
+  pageWeight: PageWeight;
+}
+
+export default function PageWeightChart({ pageWeight }: PageWeightChartProps) {
+  const data = RESOURCE_TYPES_IN_TOTAL
+    .filter((type) => (pageWeight.resources[type]?.requestCount ?? 0) > 0)
+    .map((type) => ({
+      group: RESOURCE_TYPE_LABELS[type],
+      // Kilobytes read better on the axis than bytes
+      value: Math.round((pageWeight.resources[type]!.transferSize / 1024) * 10) / 10,
+      requests: pageWeight.resources[type]!.requestCount,
+    }));
+
+  const options = {
+    title: 'Transfer size by resource type',
+    axes: {
+      left: {
+        mapsTo: 'group',
+        scaleType: ScaleTypes.LABELS,
+      },
+      bottom: {
+        title: 'Transfer size (KB)',
+        mapsTo: 'value',
+      },
+    },
+    legend: { enabled: false },
+    height: '320px',
+  };
+
+  return (
+    <div className="chart-container">
+      <SimpleBarChart data={data} options={options} />
+    </div>
+  );
+}
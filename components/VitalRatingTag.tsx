@@ -0,0 +1,20 @@
+'use client';
+
+import { Tag } from '@carbon/react';
+import { VitalRating } from '@/types';
+import { VITAL_RATING_LABELS, VITAL_RATING_TAG_TYPES } from '@/utils/webVitals';
+
+interface VitalRatingTagProps {
+  rating: VitalRating | null | undefined;
+  size?: 'sm' | 'md';
+}
+
+export default function VitalRatingTag({ rating, size = 'sm' }: VitalRatingTagProps) {
+  if (!rating) return null;
+
+  return (
+    <Tag type={VITAL_RATING_TAG_TYPES[rating]} size={size}>
+      {VITAL_RATING_LABELS[rating]}
+    </Tag>
+  );
+}
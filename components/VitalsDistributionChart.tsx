@@ -0,0 +1,51 @@
+'use client';
+
+import { StackedBarChart, ScaleTypes } from '@carbon/charts-react';
+import { VitalMetric, VitalRating } from '@/types';
+import { VITAL_METRICS, VITAL_RATING_LABELS, getTimingMetricLabel } from '@/utils/webVitals';
+
+interface VitalsDistributionChartProps {
+  distribution: Record<VitalMetric, Record<VitalRating, number>>;
+}
+
+// Hex values of the Carbon support colours, as the chart scale does not take CSS variables
+const RATING_COLORS: Record<string, string> = {
+  [VITAL_RATING_LABELS.good]: '#24a148',
+  [VITAL_RATING_LABELS['needs-improvement']]: '#f1c21b',
+  [VITAL_RATING_LABELS.poor]: '#da1e28',
+};
+
+export default function VitalsDistributionChart({ distribution }: VitalsDistributionChartProps) {
+  // Metrics added later have no ratings in older months
+  const measured = VITAL_METRICS.filter((metric) => Object.values(distribution[metric]).some((count) => count > 0));
+  const data = measured.flatMap((metric) =>
+    (Object.keys(VITAL_RATING_LABELS) as VitalRating[]).map((rating) => ({
+      group: VITAL_RATING_LABELS[rating],
+      key: getTimingMetricLabel(metric),
+      value: distribution[metric][rating],
+    }))
+  );
+
+  const options = {
+    title: 'Countries per rating',
+    axes: {
+      left: {
+        mapsTo: 'key',
+        scaleType: ScaleTypes.LABELS,
+      },
+      bottom: {
+        title: 'Countries',
+        mapsTo: 'value',
+        stacked: true,
+      },
+    },
+    color: { scale: RATING_COLORS },
+    height: '400px',
+  };
+
+  return (
+    <div className="chart-container">
+      <StackedBarChart data={data} options={options} />
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+'use client';
+
+import { Tag, Tile } from '@carbon/react';
+import { CheckmarkFilled, ErrorFilled } from '@carbon/icons-react';
+import { AuditIssue } from '@/types';
+import {
+  WCAG_LEVEL_TAG_TYPES,
+  WCAG_PRINCIPLES,
+  WCAG_PRINCIPLE_LABELS,
+  getCheckedCriteria,
+  getWcagConformance,
+} from '@/utils/wcag';
+
+interface WcagConformanceProps {
+  audits: AuditIssue[]; // Accessibility audits of the report
+}
+
+export default function WcagConformance({ audits }: WcagConformanceProps) {
+  const conformance = getWcagConformance(audits);
+
+  return (
+    <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(16rem, 1fr))', gap: '1rem' }}>
+      {WCAG_PRINCIPLES.map((principle) => {
+        const failing = conformance[principle];
+        const checkedCount = getCheckedCriteria(principle).length;
+
+        return (
+          <Tile key={principle}>
+            <h3 style={{ fontSize: '1rem', fontWeight: 600, marginBottom: '0.25rem' }}>
+              {WCAG_PRINCIPLE_LABELS[principle]}
+            </h3>
+            <p style={{ fontSize: '0.875rem', color: 'var(--cds-text-secondary)', marginBottom: '0.75rem' }}>
+              {failing.length} of {checkedCount} checked criteria failing
+            </p>
+            {failing.length === 0 ? (
+              <p style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+                <CheckmarkFilled size={16} className="score-excellent" /> No automated failures
+              </p>
+            ) : (
+              <ul style={{ listStyle: 'none', lineHeight: 1.6 }}>
+                {failing.map(({ criterion, failingAudits }) => (
+                  <li key={criterion.id} style={{ marginBottom: '0.75rem' }}>
+                    <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', flexWrap: 'wrap' }}>
+                      <ErrorFilled size={16} className="score-poor" />
+                      <strong>{criterion.id} {criterion.title}</strong>
+                      <Tag type={WCAG_LEVEL_TAG_TYPES[criterion.level]} size="sm">{criterion.level}</Tag>
+                    </div>
+                    <div style={{ fontSize: '0.75rem', color: 'var(--cds-text-secondary)', marginLeft: '1.5rem' }}>
+                      {failingAudits.map((audit) => audit.title).join(' · ')}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </Tile>
+        );
+      })}
+    </div>
+  );
+}
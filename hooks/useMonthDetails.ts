@@ -0,0 +1,121 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+import { CountryReport, FormFactor } from '@/types';
+import {
+  fetchReportManifest,
+  fetchMonthCountryDetails,
+  DEFAULT_FORM_FACTOR,
+  FORM_FACTORS,
+} from '@/utils/dataLoader';
+
+interface MonthDetails<T> {
+  months: string[];
+  // Null once the manifest is loaded means there are no reports
+  month: string | null;
+  formFactor: FormFactor;
+  data: T | null;
+  loading: boolean;
+  error: string | null;
+  // Replace query parameters of the view, keeping the others
+  updateView: (changes: Record<string, string>) => void;
+}
+
+/**
+ * Load every country's detail file for the month and form factor in the URL
+ * (the latest month and the default form factor when missing), and summarise them.
+ *
+ * The view is read from the URL so that pages can be linked to a month. A response
+ * for a view that is no longer selected is dropped, so that a slow earlier month
+ * cannot overwrite a later one. `summarize` should not change between renders.
+ * Components using this need a Suspense boundary to be statically exported.
+ */
+export function useMonthDetails<T>(
+  summarize: (details: CountryReport[]) => T,
+  errorMessage: string
+): MonthDetails<T> {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const [months, setMonths] = useState<string[]>([]);
+  const [manifestLoaded, setManifestLoaded] = useState(false);
+  const [data, setData] = useState<T | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const monthParam = searchParams.get('month');
+  const month = monthParam && months.includes(monthParam) ? monthParam : months[0] ?? null;
+  const formFactorParam = searchParams.get('formFactor') as FormFactor | null;
+  const formFactor = formFactorParam && FORM_FACTORS.includes(formFactorParam) ? formFactorParam : DEFAULT_FORM_FACTOR;
+
+  useEffect(() => {
+    let ignore = false;
+
+    async function loadManifest() {
+      try {
+        const manifest = await fetchReportManifest();
+        if (!ignore) {
+          setMonths(manifest.reports.map(({ month }) => month));
+        }
+      } catch (err) {
+        if (!ignore) {
+          setError('Failed to load report manifest');
+        }
+        console.error(err);
+      } finally {
+        if (!ignore) {
+          setManifestLoaded(true);
+        }
+      }
+    }
+    loadManifest();
+
+    return () => {
+      ignore = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!manifestLoaded) return;
+    if (!month) {
+      setLoading(false);
+      return;
+    }
+
+    let ignore = false;
+
+    async function loadDetails(selectedMonth: string) {
+      setLoading(true);
+      try {
+        // Scans every country's detail file for the month
+        const details = await fetchMonthCountryDetails(selectedMonth, formFactor);
+        if (!ignore) {
+          setData(summarize(details));
+        }
+      } catch (err) {
+        if (!ignore) {
+          setError(errorMessage);
+        }
+        console.error(err);
+      } finally {
+        if (!ignore) {
+          setLoading(false);
+        }
+      }
+    }
+    loadDetails(month);
+
+    return () => {
+      ignore = true;
+    };
+  }, [manifestLoaded, month, formFactor, summarize, errorMessage]);
+
+  const updateView = (changes: Record<string, string>) => {
+    const params = new URLSearchParams(searchParams.toString());
+    Object.entries(changes).forEach(([key, value]) => params.set(key, value));
+    router.replace(`${pathname}?${params.toString()}`, { scroll: false });
+  };
+
+  return { months, month, formFactor, data, loading, error, updateView };
+}
@@ -0,0 +1,230 @@
+const fs = require('fs');
+const path = require('path');
+const {
+  DATA_DIR,
+  SCORE_CATEGORIES,
+  RANKING_METRICS,
+  FORM_FACTORS,
+  loadCountries,
+  loadSummaries,
+  loadCountryDetail,
+  getFormFactorReports,
+  getAuditStatus,
+  isAuditSuccessful,
+  getMetricScore,
+  hasValidMetricScore,
+  isFailingAudit,
+  rankReports,
+} = require('./lib/reports');
+
+// Generates the public JSON API (public/api/v1) from the report data. Runs before each build.
+// Every response is built field by field, so changes to the internal report format must be
+// mapped here rather than leaking to API consumers. Breaking changes need a new version.
+
+const API_VERSION = 1;
+const OUTPUT_DIR = path.join(DATA_DIR, '..', 'api', `v${API_VERSION}`);
+const SCHEMAS_DIR = path.join(__dirname, 'api-schemas');
+
+const ENDPOINTS = [
+  { path: 'countries.json', schema: 'schemas/countries.schema.json', description: 'Audited countries' },
+  { path: 'months.json', schema: 'schemas/months.schema.json', description: 'Months with audit data, newest first' },
+  {
+    path: 'rankings/{month}/{formFactor}/{metric}.json',
+    schema: 'schemas/rankings.schema.json',
+    description: 'Ranking of all countries on one metric for a month and form factor',
+  },
+  {
+    path: 'countries/{tld}/history.json',
+    schema: 'schemas/history.schema.json',
+    description: 'Monthly scores and ranks of a country',
+  },
+  {
+    path: 'countries/{tld}/audits/{month}.json',
+    schema: 'schemas/audits.schema.json',
+    description: 'Lighthouse audit issues of a country for a month',
+  },
+];
+
+const TIMING_FIELDS = [
+  'firstContentfulPaint',
+  'largestContentfulPaint',
+  'totalBlockingTime',
+  'cumulativeLayoutShift',
+  'speedIndex',
+  'timeToFirstByte',
+  'timeToInteractive',
+  'maxPotentialFid',
+  'serverResponseTime',
+];
+
+let fileCount = 0;
+function writeEndpoint(relativePath, data) {
+  const filePath = path.join(OUTPUT_DIR, relativePath);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(data));
+  fileCount += 1;
+}
+
+const metricScore = (report, metric) =>
+  report && hasValidMetricScore(report, metric) ? getMetricScore(report, metric) : null;
+
+function toApiAudit(audit, category) {
+  return {
+    id: audit.id,
+    category,
+    title: audit.title,
+    description: audit.description,
+    failing: isFailingAudit(audit),
+    score: audit.score ?? null,
+    scoreDisplayMode: audit.scoreDisplayMode,
+    severity: audit.severity,
+    weight: audit.weight,
+    displayValue: audit.displayValue ?? null,
+    numericValue: audit.numericValue ?? null,
+    numericUnit: audit.numericUnit ?? null,
+    metricSavings: audit.metricSavings ?? null,
+    overallSavingsMs: audit.overallSavingsMs ?? null,
+    overallSavingsBytes: audit.overallSavingsBytes ?? null,
+  };
+}
+
+function toApiTiming(timing) {
+  if (!timing) return null;
+  return Object.fromEntries(TIMING_FIELDS.map((field) => [field, timing[field] ?? null]));
+}
+
+// Start from scratch so removed months or countries do not linger
+fs.rmSync(OUTPUT_DIR, { recursive: true, force: true });
+
+const countries = loadCountries();
+const summaries = loadSummaries();
+
+writeEndpoint('countries.json', {
+  countries: countries.map((country) => ({
+    tld: country.tld,
+    name: country.name,
+    url: country.url,
+    groups: country.groups || [],
+  })),
+});
+
+writeEndpoint('months.json', {
+  months: [...summaries].reverse().map((summary) => ({
+    month: summary.month,
+    generatedAt: summary.generatedAt,
+    formFactors: FORM_FACTORS.filter((formFactor) => getFormFactorReports(summary, formFactor).length > 0),
+  })),
+});
+
+// Ranks of every month, form factor and metric, reused by the history endpoints
+const ranks = new Map();
+const getRanks = (summary, formFactor, metric) =>
+  ranks.get(`${summary.month}/${formFactor}/${metric}`);
+
+summaries.forEach((summary, index) => {
+  const previousSummary = summaries[index - 1];
+
+  for (const formFactor of FORM_FACTORS) {
+    const reports = getFormFactorReports(summary, formFactor);
+    if (reports.length === 0) continue;
+
+    for (const metric of RANKING_METRICS) {
+      const rankByTld = rankReports(reports, metric);
+      ranks.set(`${summary.month}/${formFactor}/${metric}`, rankByTld);
+      const previousRankByTld = previousSummary
+        ? rankReports(getFormFactorReports(previousSummary, formFactor), metric)
+        : new Map();
+
+      const rankings = reports
+        .map((report) => {
+          const rank = rankByTld.get(report.tld) ?? null;
+          const previousRank = previousRankByTld.get(report.tld) ?? null;
+          return {
+            rank,
+            previousRank,
+            change: rank !== null && previousRank !== null ? previousRank - rank : null,
+            country: report.country,
+            tld: report.tld,
+            score: metricScore(report, metric),
+            status: getAuditStatus(report),
+          };
+        })
+        .sort((a, b) =>
+          (a.rank ?? Infinity) - (b.rank ?? Infinity) ||
+          a.country.localeCompare(b.country) ||
+          a.tld.localeCompare(b.tld)
+        );
+
+      writeEndpoint(`rankings/${summary.month}/${formFactor}/${metric}.json`, {
+        month: summary.month,
+        formFactor,
+        metric,
+        previousMonth: previousSummary ? previousSummary.month : null,
+        rankings,
+      });
+    }
+  }
+});
+
+for (const country of countries) {
+  const history = {};
+  for (const formFactor of FORM_FACTORS) {
+    history[formFactor] = summaries
+      .map((summary) => {
+        const report = getFormFactorReports(summary, formFactor).find((r) => r.tld === country.tld);
+        if (!report) return null;
+        return {
+          month: summary.month,
+          status: getAuditStatus(report),
+          scores: Object.fromEntries(RANKING_METRICS.map((metric) => [metric, metricScore(report, metric)])),
+          ranks: Object.fromEntries(RANKING_METRICS.map((metric) => [
+            metric,
+            getRanks(summary, formFactor, metric)?.get(country.tld) ?? null,
+          ])),
+        };
+      })
+      .filter((entry) => entry !== null);
+  }
+  writeEndpoint(`countries/${country.tld}/history.json`, { tld: country.tld, country: country.name, history });
+
+  for (const summary of summaries) {
+    const formFactors = {};
+    for (const formFactor of FORM_FACTORS) {
+      const summaryReport = getFormFactorReports(summary, formFactor).find((r) => r.tld === country.tld);
+      if (!summaryReport) continue;
+
+      // Older reports kept the audits in the monthly file instead of a detail file
+      const report = loadCountryDetail(summary.month, country.tld, formFactor) || summaryReport;
+      const audits = isAuditSuccessful(report) && report.metrics.audits ? report.metrics.audits : {};
+      formFactors[formFactor] = {
+        status: getAuditStatus(report),
+        timing: isAuditSuccessful(report) ? toApiTiming(report.metrics.timing) : null,
+        audits: SCORE_CATEGORIES.flatMap((category) =>
+          (audits[category] || []).map((audit) => toApiAudit(audit, category))
+        ),
+      };
+    }
+
+    if (Object.keys(formFactors).length > 0) {
+      writeEndpoint(`countries/${country.tld}/audits/${summary.month}.json`, {
+        tld: country.tld,
+        country: country.name,
+        month: summary.month,
+        formFactors,
+      });
+    }
+  }
+}
+
+fs.mkdirSync(path.join(OUTPUT_DIR, 'schemas'), { recursive: true });
+for (const file of fs.readdirSync(SCHEMAS_DIR)) {
+  fs.copyFileSync(path.join(SCHEMAS_DIR, file), path.join(OUTPUT_DIR, 'schemas', file));
+}
+
+writeEndpoint('index.json', {
+  version: API_VERSION,
+  generatedAt: new Date().toISOString(),
+  endpoints: ENDPOINTS,
+});
+
+console.log(`✓ Wrote ${fileCount} API files to ${path.relative(process.cwd(), OUTPUT_DIR)}`);
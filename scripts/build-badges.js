@@ -0,0 +1,94 @@
+const fs = require('fs');
+const path = require('path');
+const {
+  DATA_DIR,
+  RANKING_METRICS,
+  RANKING_METRIC_LABELS,
+  FORM_FACTORS,
+  loadSummaries,
+  getFormFactorReports,
+  getScoreBand,
+  getMetricScore,
+  hasValidMetricScore,
+  rankReports,
+} = require('./lib/reports');
+
+// Generates SVG badges with the latest score and rank of every country and metric:
+// public/badges/<tld>/<metric>.svg (desktop) and public/badges/<tld>/mobile/<metric>.svg.
+// Runs before each build, so badges always show the latest month.
+
+const OUTPUT_DIR = path.join(DATA_DIR, '..', 'badges');
+
+// Darker shades of the dashboard's score colours, so white text stays readable (WCAG AA)
+const BAND_COLORS = {
+  excellent: '#198038',
+  good: '#0043ce',
+  fair: '#8a3800',
+  poor: '#a2191f',
+};
+const LABEL_COLOR = '#393939';
+const UNSCORED_COLOR = '#6f6f6f';
+
+// Rough width of Verdana 11px text, close enough to size the badge segments
+const textWidth = (text) => Math.ceil(text.length * 6.8) + 10;
+
+const escapeXml = (text) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+function renderBadge(label, value, color, description) {
+  const labelWidth = textWidth(label);
+  const valueWidth = textWidth(value);
+  const width = labelWidth + valueWidth;
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="20" role="img" aria-label="${escapeXml(description)}">
+<title>${escapeXml(description)}</title>
+<clipPath id="r"><rect width="${width}" height="20" rx="3" fill="#fff"/></clipPath>
+<g clip-path="url(#r)">
+<rect width="${labelWidth}" height="20" fill="${LABEL_COLOR}"/>
+<rect x="${labelWidth}" width="${valueWidth}" height="20" fill="${color}"/>
+</g>
+<g fill="#fff" text-anchor="middle" font-family="Verdana,Geneva,DejaVu Sans,sans-serif" font-size="11">
+<text x="${labelWidth / 2}" y="14">${escapeXml(label)}</text>
+<text x="${labelWidth + valueWidth / 2}" y="14">${escapeXml(value)}</text>
+</g>
+</svg>
+`;
+}
+
+fs.rmSync(OUTPUT_DIR, { recursive: true, force: true });
+
+const latest = loadSummaries().at(-1);
+let badgeCount = 0;
+
+if (latest) {
+  for (const formFactor of FORM_FACTORS) {
+    const reports = getFormFactorReports(latest, formFactor);
+
+    for (const metric of RANKING_METRICS) {
+      const rankByTld = rankReports(reports, metric);
+      const label = RANKING_METRIC_LABELS[metric];
+
+      for (const report of reports) {
+        const rank = rankByTld.get(report.tld);
+        const scored = hasValidMetricScore(report, metric) && rank !== undefined;
+        const score = getMetricScore(report, metric);
+        const value = scored ? `${score} · #${rank}` : 'n/a';
+        const description = scored
+          ? `${report.country} ${label} (${formFactor}): ${score} out of 100, ranked ${rank} of ${rankByTld.size} countries`
+          : `${report.country} ${label} (${formFactor}): not scored`;
+
+        const directory = formFactor === 'mobile'
+          ? path.join(OUTPUT_DIR, report.tld, 'mobile')
+          : path.join(OUTPUT_DIR, report.tld);
+        fs.mkdirSync(directory, { recursive: true });
+        fs.writeFileSync(
+          path.join(directory, `${metric}.svg`),
+          renderBadge(label, value, scored ? BAND_COLORS[getScoreBand(score)] : UNSCORED_COLOR, description)
+        );
+        badgeCount += 1;
+      }
+    }
+  }
+}
+
+console.log(`✓ Wrote ${badgeCount} badges to ${path.relative(process.cwd(), OUTPUT_DIR)}`);
@@ -0,0 +1,102 @@
+const fs = require('fs');
+const path = require('path');
+
+// Builds the TopoJSON used by the dashboard map from the Natural Earth 1:50m
+// countries in world-atlas, keeping only the audited countries and their
+// neighbours so the browser does not have to download the whole world.
+
+const countriesPath = path.join(__dirname, '..', 'public', 'data', 'countries.json');
+const OUTPUT_PATH = path.join(__dirname, '..', 'public', 'data', 'europe.topo.json');
+
+const world = require('world-atlas/countries-50m.json');
+const { countries } = JSON.parse(fs.readFileSync(countriesPath, 'utf8'));
+
+// ISO 3166-1 numeric codes of the audited countries, keyed by TLD.
+// Kosovo has no ISO code and is matched by name instead.
+const ISO_CODES = {
+  al: '008', ad: '020', at: '040', by: '112', be: '056', ba: '070', bg: '100', hr: '191',
+  cz: '203', dk: '208', ee: '233', fi: '246', fr: '250', de: '276', gr: '300', hu: '348',
+  is: '352', ie: '372', it: '380', lv: '428', li: '438', lt: '440', lu: '442', mk: '807',
+  mt: '470', md: '498', mc: '492', me: '499', nl: '528', no: '578', pl: '616', pt: '620',
+  ro: '642', ru: '643', sm: '674', rs: '688', sk: '703', si: '705', es: '724', se: '752',
+  ch: '756', tr: '792', ua: '804', uk: '826',
+};
+const NAME_MATCHES = { ks: 'Kosovo' };
+
+// Drawn in grey for context only
+const NEIGHBOUR_CODES = [
+  '012', // Algeria
+  '031', // Azerbaijan
+  '051', // Armenia
+  '196', // Cyprus
+  '234', // Faroe Islands
+  '268', // Georgia
+  '304', // Greenland
+  '336', // Vatican
+  '364', // Iran
+  '368', // Iraq
+  '376', // Israel
+  '398', // Kazakhstan
+  '400', // Jordan
+  '422', // Lebanon
+  '434', // Libya
+  '504', // Morocco
+  '682', // Saudi Arabia
+  '760', // Syria
+  '788', // Tunisia
+  '818', // Egypt
+];
+
+const tldById = new Map(Object.entries(ISO_CODES).map(([tld, id]) => [id, tld]));
+const tldByName = new Map(Object.entries(NAME_MATCHES).map(([tld, name]) => [name, tld]));
+const knownTlds = new Set(countries.map(c => c.tld));
+
+const geometries = [];
+for (const geometry of world.objects.countries.geometries) {
+  const tld = tldById.get(geometry.id) || tldByName.get(geometry.properties.name);
+  if (tld && knownTlds.has(tld)) {
+    geometries.push({ ...geometry, id: tld, properties: { name: geometry.properties.name, tld } });
+  } else if (NEIGHBOUR_CODES.includes(geometry.id)) {
+    geometries.push({ ...geometry, properties: { name: geometry.properties.name } });
+  }
+}
+
+const missing = [...knownTlds].filter(tld => !geometries.some(g => g.id === tld));
+if (missing.length > 0) {
+  console.warn(`No map shape found for: ${missing.join(', ')}`);
+}
+
+// Keep only the arcs referenced by the remaining geometries and renumber them
+const arcIndex = new Map();
+const arcs = [];
+const remapArc = (arc) => {
+  const original = arc < 0 ? ~arc : arc;
+  if (!arcIndex.has(original)) {
+    arcIndex.set(original, arcs.length);
+    arcs.push(world.arcs[original]);
+  }
+  const index = arcIndex.get(original);
+  return arc < 0 ? ~index : index;
+};
+const remapRings = (rings) => rings.map(ring => ring.map(remapArc));
+
+for (const geometry of geometries) {
+  if (geometry.type === 'Polygon') {
+    geometry.arcs = remapRings(geometry.arcs);
+  } else if (geometry.type === 'MultiPolygon') {
+    geometry.arcs = geometry.arcs.map(remapRings);
+  }
+}
+
+const topology = {
+  type: 'Topology',
+  bbox: world.bbox,
+  transform: world.transform,
+  objects: {
+    countries: { type: 'GeometryCollection', geometries },
+  },
+  arcs,
+};
+
+fs.writeFileSync(OUTPUT_PATH, JSON.stringify(topology));
+console.log(`✓ Wrote ${geometries.length} shapes (${arcs.length} arcs) to ${path.relative(process.cwd(), OUTPUT_PATH)}`);
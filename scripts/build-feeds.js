@@ -0,0 +1,202 @@
+const fs = require('fs');
+const path = require('path');
+const {
+  DATA_DIR,
+  SCORE_CATEGORIES,
+  RANKING_METRICS,
+  RANKING_METRIC_LABELS,
+  loadCountries,
+  loadSummaries,
+  loadCountryDetail,
+  getFormFactorReports,
+  getAuditStatus,
+  isAuditSuccessful,
+  getMetricScore,
+  hasValidMetricScore,
+  calculateAverageScores,
+  isFailingAudit,
+  rankReports,
+} = require('./lib/reports');
+
+// Generates Atom feeds of the desktop results: public/feeds/atom.xml with one entry per month,
+// and public/feeds/<tld>.xml with one entry per month for each country. Runs before each build.
+// Feeds need absolute links; set SITE_URL when the site is not served from GitHub Pages.
+
+const SITE_URL = (process.env.SITE_URL || 'https://alex-ju.github.io/gov-web-performance').replace(/\/$/, '');
+const OUTPUT_DIR = path.join(DATA_DIR, '..', 'feeds');
+const FORM_FACTOR = 'desktop';
+const TOP_MOVERS = 5;
+const MAX_ENTRIES = 24;
+
+const escapeXml = (text) =>
+  String(text).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const formatMonth = (month) =>
+  new Date(`${month}-01T00:00:00Z`).toLocaleDateString('en-GB', { month: 'long', year: 'numeric', timeZone: 'UTC' });
+
+const formatChange = (change) => (change > 0 ? `+${change}` : change < 0 ? `${change}` : '±0');
+
+const describeRankChange = (change) => {
+  if (change === 0) return 'rank unchanged';
+  const places = Math.abs(change) === 1 ? 'place' : 'places';
+  return `${change > 0 ? 'up' : 'down'} ${Math.abs(change)} ${places}`;
+};
+
+function renderFeed({ id, title, subtitle, selfUrl, pageUrl, entries }) {
+  const updated = entries[0]?.updated || new Date(0).toISOString();
+  return `<?xml version="1.0" encoding="utf-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <id>${escapeXml(id)}</id>
+  <title>${escapeXml(title)}</title>
+  <subtitle>${escapeXml(subtitle)}</subtitle>
+  <link rel="self" type="application/atom+xml" href="${escapeXml(selfUrl)}"/>
+  <link rel="alternate" type="text/html" href="${escapeXml(pageUrl)}"/>
+  <updated>${updated}</updated>
+  <author><name>Government web performance dashboard</name></author>
+${entries.map((entry) => `  <entry>
+    <id>${escapeXml(entry.id)}</id>
+    <title>${escapeXml(entry.title)}</title>
+    <link rel="alternate" type="text/html" href="${escapeXml(entry.url)}"/>
+    <updated>${entry.updated}</updated>
+    <content type="html">${escapeXml(entry.html)}</content>
+  </entry>`).join('\n')}
+</feed>
+`;
+}
+
+const list = (items) => `<ul>${items.map((item) => `<li>${item}</li>`).join('')}</ul>`;
+
+// Countries whose overall index rank changed since the previous month
+function getMovers(reports, previousReports) {
+  const rankByTld = rankReports(reports, 'overall');
+  const previousRankByTld = rankReports(previousReports, 'overall');
+  return reports
+    .filter((report) => rankByTld.has(report.tld) && previousRankByTld.has(report.tld))
+    .map((report) => ({
+      country: report.country,
+      tld: report.tld,
+      rank: rankByTld.get(report.tld),
+      change: previousRankByTld.get(report.tld) - rankByTld.get(report.tld),
+    }))
+    .filter((mover) => mover.change !== 0);
+}
+
+function buildGlobalEntry(summary, previousSummary) {
+  const reports = getFormFactorReports(summary, FORM_FACTOR);
+  const averages = calculateAverageScores(reports);
+  const failedCount = reports.filter((report) => !isAuditSuccessful(report)).length;
+  const url = `${SITE_URL}/rankings?month=${summary.month}`;
+
+  let html = `<p>${reports.length} government websites were audited in ${formatMonth(summary.month)}`
+    + (failedCount > 0 ? `; ${failedCount} audits failed and are not included below.</p>` : '.</p>');
+  html += '<h3>Average scores</h3>' + list(SCORE_CATEGORIES.map((category) => {
+    const previous = previousSummary ? calculateAverageScores(getFormFactorReports(previousSummary, FORM_FACTOR))[category] : null;
+    const change = previous ? ` (${formatChange(averages[category] - previous)})` : '';
+    return `${RANKING_METRIC_LABELS[category]}: ${averages[category]}${change}`;
+  }));
+
+  if (previousSummary) {
+    const movers = getMovers(reports, getFormFactorReports(previousSummary, FORM_FACTOR));
+    const describe = (mover) =>
+      `<a href="${SITE_URL}/country/${mover.tld}/${summary.month}">${escapeXml(mover.country)}</a>: #${mover.rank} (${formatChange(mover.change)})`;
+    const risers = movers.filter((m) => m.change > 0).sort((a, b) => b.change - a.change).slice(0, TOP_MOVERS);
+    const fallers = movers.filter((m) => m.change < 0).sort((a, b) => a.change - b.change).slice(0, TOP_MOVERS);
+    if (risers.length > 0) html += '<h3>Biggest climbers on the overall index</h3>' + list(risers.map(describe));
+    if (fallers.length > 0) html += '<h3>Biggest drops on the overall index</h3>' + list(fallers.map(describe));
+  }
+
+  return {
+    id: url,
+    title: `Results for ${formatMonth(summary.month)}`,
+    url,
+    updated: summary.generatedAt,
+    html,
+  };
+}
+
+function getFailingAuditIds(report) {
+  const audits = report?.metrics.audits;
+  if (!audits) return null;
+  return new Map(SCORE_CATEGORIES.flatMap((category) =>
+    (audits[category] || []).filter(isFailingAudit).map((audit) => [`${category}:${audit.id}`, audit.title])
+  ));
+}
+
+function buildCountryEntry(tld, summary, previousSummary) {
+  const reports = getFormFactorReports(summary, FORM_FACTOR);
+  const report = reports.find((r) => r.tld === tld);
+  const url = `${SITE_URL}/country/${tld}/${summary.month}`;
+  const entry = {
+    id: url,
+    title: `${report.country}: ${formatMonth(summary.month)} results`,
+    url,
+    updated: report.timestamp || summary.generatedAt,
+  };
+
+  if (!isAuditSuccessful(report)) {
+    return { ...entry, html: `<p>The audit did not complete this month (${getAuditStatus(report)}), so there are no scores.</p>` };
+  }
+
+  const previousReports = previousSummary ? getFormFactorReports(previousSummary, FORM_FACTOR) : [];
+  const previousReport = previousReports.find((r) => r.tld === tld);
+  const scoreLines = RANKING_METRICS.filter((metric) => hasValidMetricScore(report, metric)).map((metric) => {
+    const score = getMetricScore(report, metric);
+    const rank = rankReports(reports, metric).get(tld);
+    let line = `${RANKING_METRIC_LABELS[metric]}: ${score} (#${rank})`;
+    if (previousReport && hasValidMetricScore(previousReport, metric)) {
+      const scoreChange = Math.round((score - getMetricScore(previousReport, metric)) * 10) / 10;
+      const rankChange = rankReports(previousReports, metric).get(tld) - rank;
+      line += `, score ${formatChange(scoreChange)}, ${describeRankChange(rankChange)}`;
+    }
+    return line;
+  });
+
+  let html = '<h3>Scores and ranks</h3>' + list(scoreLines);
+
+  // Newly failing audits come from the detail files of both months
+  const failing = getFailingAuditIds(loadCountryDetail(summary.month, tld, FORM_FACTOR));
+  const previousFailing = previousSummary
+    ? getFailingAuditIds(loadCountryDetail(previousSummary.month, tld, FORM_FACTOR))
+    : null;
+  if (failing && previousFailing) {
+    const newlyFailing = [...failing].filter(([key]) => !previousFailing.has(key)).map(([, title]) => escapeXml(title));
+    html += newlyFailing.length > 0
+      ? '<h3>Newly failing audits</h3>' + list(newlyFailing)
+      : '<p>No audits started failing this month.</p>';
+  }
+
+  return { ...entry, html };
+}
+
+fs.rmSync(OUTPUT_DIR, { recursive: true, force: true });
+fs.mkdirSync(OUTPUT_DIR, { recursive: true });
+
+const summaries = loadSummaries().filter((summary) => getFormFactorReports(summary, FORM_FACTOR).length > 0);
+// Newest first, each paired with the month before it
+const months = summaries.map((summary, index) => ({ summary, previousSummary: summaries[index - 1] })).reverse().slice(0, MAX_ENTRIES);
+
+fs.writeFileSync(path.join(OUTPUT_DIR, 'atom.xml'), renderFeed({
+  id: `${SITE_URL}/feeds/atom.xml`,
+  title: 'Government web performance: monthly results',
+  subtitle: 'Average Lighthouse scores and the biggest ranking changes after each monthly audit',
+  selfUrl: `${SITE_URL}/feeds/atom.xml`,
+  pageUrl: `${SITE_URL}/`,
+  entries: months.map(({ summary, previousSummary }) => buildGlobalEntry(summary, previousSummary)),
+}));
+
+const countries = loadCountries();
+for (const country of countries) {
+  const selfUrl = `${SITE_URL}/feeds/${country.tld}.xml`;
+  fs.writeFileSync(path.join(OUTPUT_DIR, `${country.tld}.xml`), renderFeed({
+    id: selfUrl,
+    title: `Government web performance: ${country.name}`,
+    subtitle: `Monthly Lighthouse results for ${country.url}`,
+    selfUrl,
+    pageUrl: `${SITE_URL}/country/${country.tld}`,
+    entries: months
+      .filter(({ summary }) => getFormFactorReports(summary, FORM_FACTOR).some((r) => r.tld === country.tld))
+      .map(({ summary, previousSummary }) => buildCountryEntry(country.tld, summary, previousSummary)),
+  }));
+}
+
+console.log(`✓ Wrote ${countries.length + 1} feeds to ${path.relative(process.cwd(), OUTPUT_DIR)}`);
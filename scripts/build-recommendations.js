@@ -0,0 +1,14 @@
+const fs = require('fs');
+const path = require('path');
+const { DATA_DIR } = require('./lib/reports');
+const { loadRecommendations } = require('./lib/recommendations');
+
+// Compiles content/recommendations/*.md into public/data/recommendations.json, which the
+// dashboard loads at runtime. Runs before each build; invalid content fails the build.
+
+const OUTPUT_PATH = path.join(DATA_DIR, 'recommendations.json');
+
+const recommendations = loadRecommendations();
+fs.writeFileSync(OUTPUT_PATH, JSON.stringify({ recommendations }));
+
+console.log(`✓ Wrote ${Object.keys(recommendations).length} recommendations to ${path.relative(process.cwd(), OUTPUT_PATH)}`);
@@ -0,0 +1,48 @@
+const fs = require('fs');
+const path = require('path');
+const {
+  REPORTS_DIR,
+  SCORE_CATEGORIES,
+  FORM_FACTORS,
+  loadSummaries,
+  getFormFactorReports,
+  getAuditStatus,
+  isAuditSuccessful,
+  calculateCompositeScore,
+} = require('./lib/reports');
+const { toCsv } = require('../utils/csv');
+
+// Writes every monthly score of every country to public/data/reports/history.csv,
+// one row per month, form factor and country. Runs before each build.
+
+const OUTPUT_PATH = path.join(REPORTS_DIR, 'history.csv');
+const COLUMNS = ['month', 'formFactor', 'country', 'tld', 'status', ...SCORE_CATEGORIES, 'overall'];
+
+const rows = [];
+for (const summary of loadSummaries()) {
+  for (const formFactor of FORM_FACTORS) {
+    for (const report of getFormFactorReports(summary, formFactor)) {
+      // Failed audits keep their row so gaps are explained, but have no scores.
+      // A category Lighthouse could not score is stored as 0 and exported empty.
+      const succeeded = isAuditSuccessful(report);
+      const scores = Object.fromEntries(SCORE_CATEGORIES.map((category) => [
+        category,
+        succeeded && report.metrics[category] > 0 ? report.metrics[category] : null,
+      ]));
+
+      rows.push({
+        month: summary.month,
+        formFactor,
+        country: report.country,
+        tld: report.tld,
+        status: getAuditStatus(report),
+        ...scores,
+        overall: succeeded ? calculateCompositeScore(report.metrics) : null,
+      });
+    }
+  }
+}
+
+fs.writeFileSync(OUTPUT_PATH, toCsv(rows, COLUMNS));
+
+console.log(`✓ Wrote ${rows.length} rows to ${path.relative(process.cwd(), OUTPUT_PATH)}`);
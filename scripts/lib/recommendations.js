@@ -0,0 +1,58 @@
+const fs = require('fs');
+const path = require('path');
+const yaml = require('js-yaml');
+
+// Curated fixing guidance, one Markdown file per Lighthouse audit id with the content in
+// its YAML frontmatter. Mirrors the AuditRecommendation type in utils/auditRecommendations.ts.
+
+const CONTENT_DIR = path.join(__dirname, '..', '..', 'content', 'recommendations');
+const FRONTMATTER = /^---\r?\n([\s\S]*?)\r?\n---/;
+
+const isNonEmptyString = (value) => typeof value === 'string' && value.trim().length > 0;
+
+function validateRecommendation(data, file) {
+  const fail = (message) => {
+    throw new Error(`${path.join('content', 'recommendations', file)}: ${message}`);
+  };
+
+  if (!data || typeof data !== 'object') fail('missing frontmatter');
+  if (!isNonEmptyString(data.title)) fail('`title` is required');
+  if (!Array.isArray(data.tips) || data.tips.length === 0 || !data.tips.every(isNonEmptyString)) {
+    fail('`tips` must be a non-empty list of strings');
+  }
+  if (data.impact !== undefined && !isNonEmptyString(data.impact)) fail('`impact` must be a string');
+  if (data.codeExample !== undefined) {
+    const { language, before, after, description } = data.codeExample || {};
+    if (![language, after, description].every(isNonEmptyString) || (before !== undefined && !isNonEmptyString(before))) {
+      fail('`codeExample` needs `language`, `after` and `description` strings, and optionally `before`');
+    }
+  }
+  if (!Array.isArray(data.resources) || !data.resources.every((r) => isNonEmptyString(r?.label) && /^https:\/\//.test(r?.url))) {
+    fail('`resources` must be a list of `label` and https `url` pairs');
+  }
+}
+
+// Recommendations keyed by audit id (the file name). Throws on invalid content so the build fails.
+function loadRecommendations() {
+  const recommendations = {};
+  for (const file of fs.readdirSync(CONTENT_DIR).filter((name) => name.endsWith('.md')).sort()) {
+    const source = fs.readFileSync(path.join(CONTENT_DIR, file), 'utf8');
+    const match = source.match(FRONTMATTER);
+    const data = match ? yaml.load(match[1]) : null;
+    validateRecommendation(data, file);
+
+    recommendations[path.basename(file, '.md')] = {
+      title: data.title,
+      tips: data.tips,
+      ...(data.impact && { impact: data.impact }),
+      ...(data.codeExample && { codeExample: data.codeExample }),
+      resources: data.resources.map(({ label, url }) => ({ label, url })),
+    };
+  }
+  return recommendations;
+}
+
+module.exports = {
+  CONTENT_DIR,
+  loadRecommendations,
+};
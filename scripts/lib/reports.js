@@ -0,0 +1,93 @@
+const fs = require('fs');
+const path = require('path');
+const {
+  SCORE_CATEGORIES,
+  RANKING_METRICS,
+  RANKING_METRIC_LABELS,
+  FORM_FACTORS,
+  getAuditStatus,
+  isAuditSuccessful,
+  calculateCompositeScore,
+  getScoreBand,
+  getMetricScore,
+  hasValidMetricScore,
+  calculateAverageScores,
+  isFailingAudit,
+  rankReports,
+} = require('../../utils/reportScoring');
+
+// Helpers shared by the build scripts. Scoring and ranking come from utils/reportScoring.js,
+// which the dashboard uses too.
+
+const DATA_DIR = path.join(__dirname, '..', '..', 'public', 'data');
+const REPORTS_DIR = path.join(DATA_DIR, 'reports');
+
+function readJson(filePath) {
+  return JSON.parse(fs.readFileSync(filePath, 'utf8'));
+}
+
+function loadCountries() {
+  return readJson(path.join(DATA_DIR, 'countries.json')).countries;
+}
+
+/**
+ * Monthly summaries listed in the manifest, oldest first
+ */
+function loadSummaries() {
+  const manifestPath = path.join(REPORTS_DIR, 'manifest.json');
+  if (!fs.existsSync(manifestPath)) {
+    return [];
+  }
+
+  return readJson(manifestPath).reports
+    .map(({ month }) => {
+      // Reports from before the summary/detail split were stored as a single <month>.json
+      const summaryPath = path.join(REPORTS_DIR, `${month}-summary.json`);
+      const legacyPath = path.join(REPORTS_DIR, `${month}.json`);
+      if (fs.existsSync(summaryPath)) return readJson(summaryPath);
+      if (fs.existsSync(legacyPath)) return readJson(legacyPath);
+      return null;
+    })
+    .filter((summary) => summary !== null)
+    .sort((a, b) => a.month.localeCompare(b.month));
+}
+
+/**
+ * Detailed report of a country for a month and form factor, or null when there is none
+ */
+function loadCountryDetail(month, tld, formFactor) {
+  const detailPath = formFactor === 'mobile'
+    ? path.join(REPORTS_DIR, month, 'mobile', `${tld}.json`)
+    : path.join(REPORTS_DIR, month, `${tld}.json`);
+  return fs.existsSync(detailPath) ? readJson(detailPath) : null;
+}
+
+/**
+ * Reports of a summary for one form factor (summaries predating mobile audits only have desktop)
+ */
+function getFormFactorReports(summary, formFactor) {
+  return (formFactor === 'mobile' ? summary.mobileReports : summary.reports) || [];
+}
+
+module.exports = {
+  DATA_DIR,
+  REPORTS_DIR,
+  SCORE_CATEGORIES,
+  RANKING_METRICS,
+  RANKING_METRIC_LABELS,
+  FORM_FACTORS,
+  readJson,
+  loadCountries,
+  loadSummaries,
+  loadCountryDetail,
+  getFormFactorReports,
+  getAuditStatus,
+  isAuditSuccessful,
+  calculateCompositeScore,
+  getScoreBand,
+  getMetricScore,
+  hasValidMetricScore,
+  calculateAverageScores,
+  isFailingAudit,
+  rankReports,
+};
@@ -1,7 +1,9 @@
 const fs = require('fs');
 const path = require('path');
 const lighthouse = require('lighthouse').default;
+const { computeMedianRun, filterToValidRuns } = require('lighthouse/core/lib/median-run.js');
 const chromeLauncher = require('chrome-launcher');
+const thirdPartyWeb = require('third-party-web');
 
 // Read countries data
 const countriesPath = path.join(__dirname, '..', 'public', 'data', 'countries.json');
@@ -22,6 +24,10 @@ if (targetTld) {
 // Configuration
 const REPORTS_DIR = path.join(__dirname, '..', 'public', 'data', 'reports');
 const MANIFEST_PATH = path.join(REPORTS_DIR, 'manifest.json');
+// Runs per site and form factor; the median run is reported (set LIGHTHOUSE_RUNS to override)
+const RUNS_PER_SITE = Math.max(1, parseInt(process.env.LIGHTHOUSE_RUNS || '3', 10) || 1);
+// Filmstrip frames kept per report out of Lighthouse's 10, since every image is committed
+const FILMSTRIP_FRAMES = 4;
 
 // Ensure reports directory exists
 if (!fs.existsSync(REPORTS_DIR)) {
@@ -33,27 +39,51 @@ const lighthouseOptions = {
   logLevel: 'info',
   output: 'json',
   onlyCategories: ['performance', 'accessibility', 'best-practices', 'seo'],
-  formFactor: 'desktop',
-  screenEmulation: {
-    mobile: false,
-    width: 1350,
-    height: 940,
-    deviceScaleFactor: 1,
-    disabled: false,
+};
+
+// Device profiles every country is audited with
+const formFactorOptions = {
+  desktop: {
+    formFactor: 'desktop',
+    screenEmulation: {
+      mobile: false,
+      width: 1350,
+      height: 940,
+      deviceScaleFactor: 1,
+      disabled: false,
+    },
+    throttling: {
+      rttMs: 40,
+      throughputKbps: 10240,
+      cpuSlowdownMultiplier: 1,
+    },
   },
-  throttling: {
-    rttMs: 40,
-    throughputKbps: 10240,
-    cpuSlowdownMultiplier: 1,
+  // Lighthouse's default mobile profile (emulated mid-range phone on slow 4G)
+  mobile: {
+    formFactor: 'mobile',
+    screenEmulation: {
+      mobile: true,
+      width: 412,
+      height: 823,
+      deviceScaleFactor: 1.75,
+      disabled: false,
+    },
+    throttling: {
+      rttMs: 150,
+      throughputKbps: 1638.4,
+      cpuSlowdownMultiplier: 4,
+    },
   },
 };
+const FORM_FACTORS = Object.keys(formFactorOptions);
 
-async function runLighthouse(url) {
+async function runLighthouse(url, formFactor) {
   const chrome = await chromeLauncher.launch({
     chromeFlags: ['--headless', '--ignore-certificate-errors', '--no-sandbox']
   });
   const options = {
     ...lighthouseOptions,
+    ...formFactorOptions[formFactor],
     port: chrome.port,
     maxWaitForLoad: 45000,
   };
@@ -68,6 +98,249 @@ async function runLighthouse(url) {
   }
 }
 
+// Run Lighthouse several times and pick the run closest to the median FCP and TTI,
+// as recommended in https://github.com/GoogleChrome/lighthouse/blob/main/docs/variability.md
+async function runMedianLighthouse(url, formFactor) {
+  const runs = [];
+  let lastError = null;
+
+  for (let run = 1; run <= RUNS_PER_SITE; run++) {
+    try {
+      const result = await runLighthouse(url, formFactor);
+      runs.push(result.lhr);
+    } catch (error) {
+      lastError = error;
+      console.warn(`    Run ${run}/${RUNS_PER_SITE} failed: ${error.message}`);
+    }
+  }
+
+  const validRuns = filterToValidRuns(runs);
+  if (validRuns.length === 0) {
+    if (lastError) throw lastError;
+
+    // Lighthouse reports page load problems in the result instead of throwing
+    const runtimeError = runs.find(lhr => lhr.runtimeError)?.runtimeError;
+    const error = new Error(runtimeError?.message || 'No valid Lighthouse runs');
+    error.code = runtimeError?.code;
+    throw error;
+  }
+
+  return {
+    medianRun: computeMedianRun(validRuns),
+    runs: validRuns,
+  };
+}
+
+// Map a Lighthouse/Chrome error to the audit status stored in the report
+function classifyAuditError(error) {
+  const code = error.code || '';
+  const message = error.message || '';
+
+  if (code === 'DNS_FAILURE' || /ERR_NAME_NOT_RESOLVED|ERR_NAME_RESOLUTION_FAILED/.test(message)) {
+    return 'dns-error';
+  }
+  if (code === 'INSECURE_DOCUMENT_REQUEST' || /ERR_CERT_|ERR_SSL_|SSL_PROTOCOL_ERROR/.test(message)) {
+    return 'tls-error';
+  }
+  if (['PAGE_HUNG', 'PROTOCOL_TIMEOUT', 'CRI_TIMEOUT'].includes(code) || /timed? ?out|ERR_TIMED_OUT|ERR_CONNECTION_TIMED_OUT/i.test(message)) {
+    return 'timeout';
+  }
+
+  const statusCode = Number(message.match(/Status code: (\d+)/)?.[1]);
+  if ([401, 403, 429].includes(statusCode) || code === 'CHROME_INTERSTITIAL_ERROR' || /ERR_BLOCKED_BY|ERR_ACCESS_DENIED/.test(message)) {
+    return 'blocked';
+  }
+  if (statusCode >= 400) {
+    return 'http-error';
+  }
+  if (['FAILED_DOCUMENT_REQUEST', 'ERRORED_DOCUMENT_REQUEST', 'NO_DOCUMENT_REQUEST', 'NOT_HTML', 'NO_FCP'].includes(code) || /net::ERR_/.test(message)) {
+    return 'navigation-error';
+  }
+  return 'error';
+}
+
+// Spread of each category score across all valid runs
+function calculateScoreVariance(runs) {
+  const categoryIds = {
+    performance: 'performance',
+    accessibility: 'accessibility',
+    bestPractices: 'best-practices',
+    seo: 'seo',
+  };
+  const variance = {};
+
+  for (const [key, categoryId] of Object.entries(categoryIds)) {
+    const scores = runs
+      .map(lhr => lhr.categories[categoryId]?.score)
+      .filter(score => typeof score === 'number')
+      .map(score => Math.round(score * 100));
+    if (scores.length === 0) continue;
+
+    const mean = scores.reduce((sum, score) => sum + score, 0) / scores.length;
+    const squaredDiffs = scores.reduce((sum, score) => sum + (score - mean) ** 2, 0);
+
+    variance[key] = {
+      min: Math.min(...scores),
+      max: Math.max(...scores),
+      stddev: Math.round(Math.sqrt(squaredDiffs / scores.length) * 10) / 10,
+    };
+  }
+
+  return variance;
+}
+
+// Lighthouse resource types, keyed as stored in the report
+const RESOURCE_TYPE_KEYS = {
+  document: 'document',
+  script: 'script',
+  stylesheet: 'stylesheet',
+  image: 'image',
+  font: 'font',
+  media: 'media',
+  other: 'other',
+  'third-party': 'thirdParty',
+};
+
+// Transfer size and request count of the page, in total and per resource type.
+// Third-party requests are also counted under their own type.
+function extractPageWeight(audits) {
+  const items = audits['resource-summary']?.details?.items;
+  if (!items) return null;
+
+  const totals = items.find(item => item.resourceType === 'total');
+  const resources = {};
+  for (const item of items) {
+    const key = RESOURCE_TYPE_KEYS[item.resourceType];
+    if (key) {
+      resources[key] = { requestCount: item.requestCount, transferSize: item.transferSize };
+    }
+  }
+
+  return {
+    transferSize: totals?.transferSize ?? 0,
+    requestCount: totals?.requestCount ?? 0,
+    resources,
+  };
+}
+
+// Third-party entities the page loaded, with their cost. Lighthouse 13 replaced
+// third-party-summary with third-parties-insight, which has no blocking time.
+function extractThirdParties(audits) {
+  const audit = audits['third-party-summary'] || audits['third-parties-insight'];
+  if (!audit || audit.scoreDisplayMode === 'error') return null;
+
+  return (audit.details?.items || [])
+    .map(item => {
+      // Older Lighthouse versions reported the entity as a link
+      const name = typeof item.entity === 'string' ? item.entity : item.entity?.text;
+      const entity = thirdPartyWeb.entities.find(e => e.name === name);
+      return {
+        name,
+        category: entity?.category || 'unknown',
+        transferSize: item.transferSize ?? 0,
+        blockingTime: item.blockingTime ?? null,
+        mainThreadTime: item.mainThreadTime ?? null,
+      };
+    })
+    .filter(entity => entity.name);
+}
+
+// Failing elements kept per accessibility audit; the full count is stored alongside
+const MAX_AUDIT_ELEMENTS = 10;
+
+// Elements an audit flagged, from the node entries of its details table
+function extractAuditElements(audit) {
+  const nodes = (audit.details?.items || [])
+    .map(item => item.node)
+    .filter(node => node && node.type === 'node');
+  if (nodes.length === 0) return null;
+
+  return {
+    elementCount: nodes.length,
+    elements: nodes.slice(0, MAX_AUDIT_ELEMENTS).map(node => ({
+      selector: node.selector || null,
+      snippet: node.snippet || null,
+      nodeLabel: node.nodeLabel || null,
+      explanation: node.explanation || null,
+      boundingRect: node.boundingRect
+        ? {
+          top: node.boundingRect.top,
+          left: node.boundingRect.left,
+          width: node.boundingRect.width,
+          height: node.boundingRect.height,
+        }
+        : null,
+    })),
+  };
+}
+
+// Evenly spaced frames of a filmstrip, always ending with the last one
+function sampleFrames(frames, count) {
+  if (frames.length <= count) return frames;
+  return Array.from({ length: count }, (_, index) =>
+    frames[Math.round(((index + 1) * frames.length) / count) - 1]
+  );
+}
+
+// What the page looked like while loading and once loaded, as data URIs. saveReport writes
+// them out as image files so that detail files stay small.
+function extractScreenshots(audits) {
+  const final = audits['final-screenshot']?.details;
+  const thumbnails = (audits['screenshot-thumbnails']?.details?.items || []).filter(item => item.data);
+  if (!final?.data && thumbnails.length === 0) return null;
+
+  return {
+    final: final?.data ? { timing: final.timing, data: final.data } : null,
+    thumbnails: sampleFrames(thumbnails, FILMSTRIP_FRAMES).map(item => ({ timing: item.timing, data: item.data })),
+  };
+}
+
+const IMAGE_EXTENSIONS = { 'image/jpeg': 'jpg', 'image/png': 'png', 'image/webp': 'webp' };
+
+// Write the screenshots of a report to <dir>/screenshots/<tld>/ next to its detail file,
+// replacing any from an earlier run, and return them with paths relative to REPORTS_DIR
+function writeScreenshots(screenshots, dir, tld) {
+  const screenshotsDir = path.join(dir, 'screenshots', tld);
+  fs.rmSync(screenshotsDir, { recursive: true, force: true });
+  if (!screenshots) return null;
+  fs.mkdirSync(screenshotsDir, { recursive: true });
+
+  const writeImage = ({ timing, data }, name) => {
+    const match = data.match(/^data:(image\/[a-z]+);base64,(.*)$/);
+    if (!match || !IMAGE_EXTENSIONS[match[1]]) return null;
+    const filePath = path.join(screenshotsDir, `${name}.${IMAGE_EXTENSIONS[match[1]]}`);
+    fs.writeFileSync(filePath, Buffer.from(match[2], 'base64'));
+    return { path: path.relative(REPORTS_DIR, filePath).split(path.sep).join('/'), timing };
+  };
+
+  return {
+    final: screenshots.final ? writeImage(screenshots.final, 'final') : null,
+    thumbnails: screenshots.thumbnails
+      .map((thumbnail, index) => writeImage(thumbnail, `thumbnail-${index + 1}`))
+      .filter(Boolean),
+  };
+}
+
+// Lighthouse's estimate of what fixing an audit would save, which the fix plan on the
+// country pages turns into category points. Metric audits keep their scoring curve so that
+// a saving can be scored. Lighthouse 13 insights report byte savings in their debug data.
+function extractAuditSavings(audit) {
+  const metricSavings = Object.fromEntries(
+    Object.entries(audit.metricSavings || {}).filter(([, value]) => Number.isFinite(value) && value > 0)
+  );
+  const overallSavingsMs = audit.details?.overallSavingsMs;
+  const overallSavingsBytes = audit.details?.overallSavingsBytes ?? audit.details?.debugData?.wastedBytes;
+
+  return {
+    ...(Object.keys(metricSavings).length > 0 && { metricSavings }),
+    ...(overallSavingsMs > 0 && { overallSavingsMs }),
+    ...(overallSavingsBytes > 0 && { overallSavingsBytes }),
+    ...(audit.scoringOptions && {
+      scoringOptions: { p10: audit.scoringOptions.p10, median: audit.scoringOptions.median },
+    }),
+  };
+}
+
 function extractMetrics(lhr) {
   const categories = lhr.categories;
   const audits = lhr.audits;
@@ -99,6 +372,9 @@ function extractMetrics(lhr) {
           // Extract numeric value for estimated impact
           numericValue: audit.numericValue || null,
           numericUnit: audit.numericUnit || null,
+          ...extractAuditSavings(audit),
+          // Point developers at the offending markup of failing accessibility audits
+          ...(categoryId === 'accessibility' && score < 1 ? extractAuditElements(audit) : null),
         });
       }
     });
@@ -115,6 +391,13 @@ function extractMetrics(lhr) {
     return failedAudits;
   };
 
+  // Ids of the audits a category passed, which are not kept above. They tell a passed audit
+  // apart from one that did not run, e.g. because it is missing from this Lighthouse version.
+  const extractPassedAudits = (categoryId) =>
+    (categories[categoryId].auditRefs || [])
+      .filter(ref => audits[ref.id]?.score === 1 && audits[ref.id].scoreDisplayMode !== 'informative')
+      .map(ref => ref.id);
+
   return {
     performance: Math.round(categories.performance.score * 100),
     accessibility: Math.round(categories.accessibility.score * 100),
@@ -126,19 +409,34 @@ function extractMetrics(lhr) {
       bestPractices: extractAuditsForCategory('best-practices'),
       seo: extractAuditsForCategory('seo'),
     },
-    // Store timing metrics for performance insights
+    passedAudits: {
+      performance: extractPassedAudits('performance'),
+      accessibility: extractPassedAudits('accessibility'),
+      bestPractices: extractPassedAudits('best-practices'),
+      seo: extractPassedAudits('seo'),
+    },
+    // Store timing metrics for performance insights. A value of 0 is a real measurement
+    // (e.g. no layout shifts or no blocking time), so only missing audits become null.
     timing: {
-      firstContentfulPaint: audits['first-contentful-paint']?.numericValue || null,
-      largestContentfulPaint: audits['largest-contentful-paint']?.numericValue || null,
-      totalBlockingTime: audits['total-blocking-time']?.numericValue || null,
-      cumulativeLayoutShift: audits['cumulative-layout-shift']?.numericValue || null,
-      speedIndex: audits['speed-index']?.numericValue || null,
-    }
+      firstContentfulPaint: audits['first-contentful-paint']?.numericValue ?? null,
+      largestContentfulPaint: audits['largest-contentful-paint']?.numericValue ?? null,
+      totalBlockingTime: audits['total-blocking-time']?.numericValue ?? null,
+      cumulativeLayoutShift: audits['cumulative-layout-shift']?.numericValue ?? null,
+      speedIndex: audits['speed-index']?.numericValue ?? null,
+      // Lighthouse has no TTFB audit; the metrics summary reports it for the main document
+      timeToFirstByte: audits.metrics?.details?.items?.[0]?.timeToFirstByte ?? null,
+      timeToInteractive: audits['interactive']?.numericValue ?? null,
+      maxPotentialFid: audits['max-potential-fid']?.numericValue ?? null,
+      serverResponseTime: audits['server-response-time']?.numericValue ?? null,
+    },
+    pageWeight: extractPageWeight(audits),
+    thirdParties: extractThirdParties(audits),
+    screenshots: extractScreenshots(audits),
   };
 }
 
 async function auditAllCountries() {
-  console.log(`Starting Lighthouse audits for ${countries.length} countries...`);
+  console.log(`Starting Lighthouse audits for ${countries.length} countries (${RUNS_PER_SITE} runs per site)...`);
   const reports = [];
   const timestamp = new Date().toISOString();
 
@@ -146,34 +444,46 @@ async function auditAllCountries() {
     const country = countries[i];
     console.log(`[${i + 1}/${countries.length}] Auditing ${country.name} (${country.url})...`);
 
-    try {
-      const result = await runLighthouse(country.url);
-      const metrics = extractMetrics(result.lhr);
-
-      reports.push({
-        country: country.name,
-        tld: country.tld,
-        url: country.url,
-        timestamp,
-        metrics,
-      });
-
-      console.log(`  ✓ Performance: ${metrics.performance}, Accessibility: ${metrics.accessibility}`);
-    } catch (error) {
-      console.error(`  ✗ Failed to audit ${country.name}:`, error.message);
-      // Add a report with zero scores for failed audits
-      reports.push({
-        country: country.name,
-        tld: country.tld,
-        url: country.url,
-        timestamp,
-        metrics: {
-          performance: 0,
-          accessibility: 0,
-          bestPractices: 0,
-          seo: 0,
-        },
-      });
+    for (const formFactor of FORM_FACTORS) {
+      try {
+        const { medianRun, runs } = await runMedianLighthouse(country.url, formFactor);
+        const metrics = {
+          ...extractMetrics(medianRun),
+          runs: runs.length,
+          variance: calculateScoreVariance(runs),
+        };
+
+        reports.push({
+          country: country.name,
+          tld: country.tld,
+          url: country.url,
+          timestamp,
+          formFactor,
+          status: 'ok',
+          metrics,
+        });
+
+        console.log(`  ✓ [${formFactor}] Performance: ${metrics.performance} (±${metrics.variance.performance?.stddev ?? 0}), Accessibility: ${metrics.accessibility} (median of ${runs.length} runs)`);
+      } catch (error) {
+        const status = classifyAuditError(error);
+        console.error(`  ✗ [${formFactor}] Failed to audit ${country.name} (${status}):`, error.message);
+        // Record the failure with `status`; a failed audit has no scores
+        reports.push({
+          country: country.name,
+          tld: country.tld,
+          url: country.url,
+          timestamp,
+          formFactor,
+          status,
+          error: error.message,
+          metrics: {
+            performance: null,
+            accessibility: null,
+            bestPractices: null,
+            seo: null,
+          },
+        });
+      }
     }
 
     // Add a small delay between requests to be respectful
@@ -192,19 +502,25 @@ function saveReport(newReports) {
   const summaryPath = path.join(REPORTS_DIR, summaryFilename);
   const detailsDir = path.join(REPORTS_DIR, month);
 
-  let allReports = [];
+  // Summary lists keyed by form factor (desktop keeps the original `reports` key)
+  const summaryKeys = { desktop: 'reports', mobile: 'mobileReports' };
+  const allReports = { desktop: [], mobile: [] };
   let generatedAt = now.toISOString();
 
-  // Ensure details directory exists
-  if (!fs.existsSync(detailsDir)) {
-    fs.mkdirSync(detailsDir, { recursive: true });
+  // Ensure details directories exist
+  for (const dir of [detailsDir, path.join(detailsDir, 'mobile')]) {
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
   }
 
   // Read existing summary if it exists
   if (fs.existsSync(summaryPath)) {
     try {
       const existingData = JSON.parse(fs.readFileSync(summaryPath, 'utf8'));
-      allReports = existingData.reports || [];
+      for (const formFactor of FORM_FACTORS) {
+        allReports[formFactor] = existingData[summaryKeys[formFactor]] || [];
+      }
     } catch (error) {
       console.warn(`Could not parse existing summary at ${summaryPath}, starting fresh.`);
     }
@@ -212,7 +528,8 @@ function saveReport(newReports) {
 
   // Merge new reports and save individual detail files
   for (const newReport of newReports) {
-    const index = allReports.findIndex(r => r.country === newReport.country);
+    const formFactorReports = allReports[newReport.formFactor];
+    const index = formFactorReports.findIndex(r => r.country === newReport.country);
 
     // Create summary version (without audits and timing)
     const summaryReport = {
@@ -220,36 +537,50 @@ function saveReport(newReports) {
       tld: newReport.tld,
       url: newReport.url,
       timestamp: newReport.timestamp,
+      formFactor: newReport.formFactor,
+      status: newReport.status,
+      error: newReport.error,
       metrics: {
         performance: newReport.metrics.performance,
         accessibility: newReport.metrics.accessibility,
         bestPractices: newReport.metrics.bestPractices,
         seo: newReport.metrics.seo,
+        runs: newReport.metrics.runs,
+        variance: newReport.metrics.variance,
       }
     };
 
     if (index !== -1) {
-      allReports[index] = summaryReport;
+      formFactorReports[index] = summaryReport;
     } else {
-      allReports.push(summaryReport);
+      formFactorReports.push(summaryReport);
     }
 
-    // Save individual detail file with full audit data
-    const detailFilename = `${newReport.tld}.json`;
+    // Save individual detail file with full audit data (mobile runs live in a subdirectory)
+    const detailFilename = newReport.formFactor === 'mobile'
+      ? path.join('mobile', `${newReport.tld}.json`)
+      : `${newReport.tld}.json`;
     const detailPath = path.join(detailsDir, detailFilename);
+    // Also clears the screenshots of an earlier run when this one failed
+    const screenshots = writeScreenshots(newReport.metrics.screenshots, path.dirname(detailPath), newReport.tld);
+    if (newReport.status === 'ok') {
+      newReport.metrics.screenshots = screenshots;
+    }
     fs.writeFileSync(detailPath, JSON.stringify(newReport, null, 2));
     console.log(`  Detail file saved: ${month}/${detailFilename}`);
   }
 
-  // Sort by country name
-  allReports.sort((a, b) => a.country.localeCompare(b.country));
-
   const monthlySummary = {
     month,
     generatedAt,
-    reports: allReports,
   };
 
+  // Sort by country name
+  for (const formFactor of FORM_FACTORS) {
+    allReports[formFactor].sort((a, b) => a.country.localeCompare(b.country));
+    monthlySummary[summaryKeys[formFactor]] = allReports[formFactor];
+  }
+
   // Save the monthly summary
   fs.writeFileSync(summaryPath, JSON.stringify(monthlySummary, null, 2));
   console.log(`\nSummary saved to: ${summaryPath}`);
@@ -298,7 +629,7 @@ async function main() {
     // We can't easily know the total count in the file without reading it back or returning it from saveReport.
     // But saveReport returns the path.
     // Let's just log the number of *audited* countries here.
-    console.log(`  Countries audited in this run: ${reports.length}`);
+    console.log(`  Countries audited in this run: ${countries.length} (${FORM_FACTORS.join(' + ')})`);
     console.log(`  Report location: ${reportPath}`);
   } catch (error) {
     console.error('\n✗ Lighthouse audit failed:', error);
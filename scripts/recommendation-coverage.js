@@ -0,0 +1,57 @@
+const {
+  SCORE_CATEGORIES,
+  FORM_FACTORS,
+  loadSummaries,
+  loadCountryDetail,
+  getFormFactorReports,
+  isAuditSuccessful,
+  isFailingAudit,
+} = require('./lib/reports');
+const { loadRecommendations } = require('./lib/recommendations');
+
+// Reports which failing audit ids in the data have no curated recommendation in
+// content/recommendations, most frequent first, so new content goes where it helps most.
+// Those audits fall back to Lighthouse's own description and learn-more link.
+
+const recommendations = loadRecommendations();
+const summaries = loadSummaries();
+const latestMonth = summaries[summaries.length - 1]?.month;
+const seen = new Map();
+
+for (const summary of summaries) {
+  for (const formFactor of FORM_FACTORS) {
+    for (const summaryReport of getFormFactorReports(summary, formFactor)) {
+      // Older reports kept the audits in the monthly file instead of a detail file
+      const report = loadCountryDetail(summary.month, summaryReport.tld, formFactor) || summaryReport;
+      if (!isAuditSuccessful(report) || !report.metrics.audits) continue;
+
+      for (const category of SCORE_CATEGORIES) {
+        for (const audit of (report.metrics.audits[category] || []).filter(isFailingAudit)) {
+          const entry = seen.get(audit.id) || { id: audit.id, title: audit.title, category, failures: 0, latestCountries: new Set() };
+          entry.failures += 1;
+          if (summary.month === latestMonth) entry.latestCountries.add(report.tld);
+          seen.set(audit.id, entry);
+        }
+      }
+    }
+  }
+}
+
+const entries = [...seen.values()];
+const missing = entries
+  .filter((entry) => !recommendations[entry.id])
+  .sort((a, b) => b.latestCountries.size - a.latestCountries.size || b.failures - a.failures || a.id.localeCompare(b.id));
+const unused = Object.keys(recommendations).filter((id) => !seen.has(id));
+
+console.log(`Curated recommendations cover ${entries.length - missing.length} of ${entries.length} failing audit ids in the data.\n`);
+
+if (missing.length > 0) {
+  console.log(`Missing content (countries failing in ${latestMonth}, failing reports across all months):`);
+  for (const entry of missing) {
+    console.log(`  ${entry.id.padEnd(36)} ${String(entry.latestCountries.size).padStart(3)} ${String(entry.failures).padStart(5)}  ${entry.category}: ${entry.title}`);
+  }
+}
+
+if (unused.length > 0) {
+  console.log(`\nCurated but never failing in the data (check the file names): ${unused.join(', ')}`);
+}
@@ -1,8 +1,28 @@
+// Policy blocs and regions a country can belong to
+export type CountryGroup =
+  | 'eu'
+  | 'eea'
+  | 'efta'
+  | 'nordic'
+  | 'baltic'
+  | 'western-balkans'
+  | 'eu-candidate';
+
 // Country information
 export interface Country {
   name: string;
   url: string;
   tld: string;
+  groups?: CountryGroup[];
+}
+
+// Page element flagged by an audit, as reported by Lighthouse
+export interface AuditElement {
+  selector: string | null;
+  snippet: string | null; // Opening tag of the element
+  nodeLabel: string | null; // Text or accessible name identifying the element
+  explanation: string | null; // Why the element fails
+  boundingRect: { top: number; left: number; width: number; height: number } | null; // CSS pixels
 }
 
 // Individual audit failure/warning
@@ -17,6 +37,35 @@ export interface AuditIssue {
   weight: number;
   numericValue: number | null;
   numericUnit: string | null;
+  elements?: AuditElement[]; // Failing accessibility audits only, capped per audit
+  elementCount?: number; // Number of flagged elements before the cap
+  metricSavings?: MetricSavings; // Lighthouse's estimated saving per metric, when fixed
+  overallSavingsMs?: number;
+  overallSavingsBytes?: number;
+  scoringOptions?: MetricScoringOptions; // Metric audits only
+}
+
+// Lab metrics Lighthouse estimates savings for, keyed by its acronyms
+export type SavingsMetric = 'FCP' | 'LCP' | 'TBT' | 'CLS' | 'INP';
+
+export type MetricSavings = Partial<Record<SavingsMetric, number>>;
+
+// Log-normal scoring curve of a metric audit: the value scoring 0.9 and the value scoring 0.5
+export interface MetricScoringOptions {
+  p10: number;
+  median: number;
+}
+
+// One fix in a country's fix plan, with the category score projected after it and every fix above it
+export interface FixPlanStep {
+  id: string;
+  title: string;
+  category: keyof CategorizedAudits;
+  points: number; // Estimated category points recovered by this fix alone
+  projectedScore: number;
+  metricSavings: MetricSavings;
+  overallSavingsMs: number | null;
+  overallSavingsBytes: number | null;
 }
 
 // Categorized audit issues
@@ -27,6 +76,58 @@ export interface CategorizedAudits {
   seo: AuditIssue[];
 }
 
+// How a failing audit changed relative to the previous month
+export type AuditChangeType = 'new' | 'resolved' | 'regressed' | 'persisting' | 'not-audited';
+
+// Single audit change between two monthly detail reports
+export interface AuditChange {
+  type: AuditChangeType;
+  category: keyof CategorizedAudits;
+  audit: AuditIssue; // Current issue, or the previous one when resolved
+  previousScore: number | null;
+  currentScore: number | null;
+}
+
+// Month-over-month audit diff for a country
+export interface AuditDiff {
+  previousMonth: string;
+  new: AuditChange[];
+  resolved: AuditChange[];
+  regressed: AuditChange[];
+  persisting: AuditChange[];
+  notAudited: AuditChange[]; // Failing in the previous month, not recorded in the current one
+}
+
+// Audit failing across countries in the same month
+export interface CommonAuditFailure {
+  id: string;
+  title: string;
+  description: string;
+  category: keyof CategorizedAudits;
+  countries: {
+    country: string;
+    tld: string;
+    score: number | null;
+    severity: AuditIssue['severity'];
+  }[];
+  averageSeverity: number; // 1 (low) to 3 (high)
+  averageWeight: number;
+}
+
+// Outcome of one audit for one country in a side-by-side comparison
+// not-audited: the audit is missing from a completed report, e.g. it did not exist in its Lighthouse version
+export type AuditComparisonResult = 'pass' | 'fail' | 'not-audited' | 'no-data';
+
+// Audit compared across the selected countries
+export interface AuditComparisonRow {
+  id: string;
+  title: string;
+  category: keyof CategorizedAudits;
+  results: Record<string, { result: AuditComparisonResult; score: number | null }>; // By TLD
+  passingTlds: string[];
+  failingTlds: string[];
+}
+
 // Performance timing metrics
 export interface TimingMetrics {
   firstContentfulPaint: number | null;
@@ -34,24 +135,173 @@ export interface TimingMetrics {
   totalBlockingTime: number | null;
   cumulativeLayoutShift: number | null;
   speedIndex: number | null;
+  // Collected since the Core Web Vitals view; absent from older reports
+  timeToFirstByte?: number | null;
+  timeToInteractive?: number | null;
+  maxPotentialFid?: number | null;
+  serverResponseTime?: number | null;
+}
+
+// Timing metrics with published good / poor thresholds
+export type VitalMetric =
+  | 'largestContentfulPaint'
+  | 'cumulativeLayoutShift'
+  | 'totalBlockingTime'
+  | 'firstContentfulPaint'
+  | 'timeToFirstByte'
+  | 'maxPotentialFid';
+
+// Rating of a timing metric against the published Web Vitals thresholds
+export type VitalRating = 'good' | 'needs-improvement' | 'poor';
+
+// Web Vitals of one country in a month
+export interface CountryVitals {
+  country: string;
+  tld: string;
+  timing: TimingMetrics;
+  ratings: Partial<Record<VitalMetric, VitalRating>>;
+  assessment: VitalRating | null; // Core Web Vitals as a whole, null when one of them is missing
+  goodCount: number; // Number of rated metrics in the good range
+}
+
+// Resource types the page weight is broken down by; third-party overlaps the others
+export type ResourceType = 'document' | 'script' | 'stylesheet' | 'image' | 'font' | 'media' | 'other' | 'thirdParty';
+
+// Requests and bytes transferred for one resource type
+export interface ResourceWeight {
+  requestCount: number;
+  transferSize: number; // Bytes
+}
+
+// Transfer size of a page, from Lighthouse's resource summary
+export interface PageWeight {
+  transferSize: number; // Bytes
+  requestCount: number;
+  resources: Partial<Record<ResourceType, ResourceWeight>>;
+}
+
+// Page weight of one country in a month
+export interface CountryPageWeight {
+  country: string;
+  tld: string;
+  pageWeight: PageWeight;
+}
+
+// Third-party entity loaded by a page, categorised by the third-party-web dataset
+export interface ThirdPartyEntity {
+  name: string;
+  category: string; // e.g. analytics, ad, social, tag-manager; 'unknown' when not in the dataset
+  transferSize: number; // Bytes
+  blockingTime: number | null; // Not reported by Lighthouse 13 and later
+  mainThreadTime: number | null;
+}
+
+// Third party used across government websites in the same month
+export interface ThirdPartyUsage {
+  name: string;
+  category: string;
+  countries: {
+    country: string;
+    tld: string;
+    transferSize: number;
+    blockingTime: number | null;
+    mainThreadTime: number | null;
+  }[];
+  totalTransferSize: number;
+  totalBlockingTime: number | null; // Null when no site reported blocking time
+  totalMainThreadTime: number;
+}
+
+// WCAG conformance level of a success criterion
+export type WcagLevel = 'A' | 'AA' | 'AAA';
+
+// The four WCAG principles success criteria are grouped under
+export type WcagPrinciple = 'perceivable' | 'operable' | 'understandable' | 'robust';
+
+// WCAG 2.2 success criterion
+export interface WcagCriterion {
+  id: string; // e.g. '1.4.3'
+  title: string;
+  level: WcagLevel;
+  principle: WcagPrinciple;
+}
+
+// Success criterion with the audits failing it on one site
+export interface WcagCriterionResult {
+  criterion: WcagCriterion;
+  failingAudits: { id: string; title: string }[];
+}
+
+// Success criterion failing across countries in the same month
+export interface WcagCriterionFailure {
+  criterion: WcagCriterion;
+  countries: { country: string; tld: string }[];
+}
+
+// Lighthouse categories countries are scored on
+export type ScoreCategory = 'performance' | 'accessibility' | 'bestPractices' | 'seo';
+
+// Metrics countries are ranked on: each category plus the weighted overall index
+export type RankingMetric = ScoreCategory | 'overall';
+
+// Spread of a category score across repeated Lighthouse runs
+export interface ScoreVariance {
+  min: number;
+  max: number;
+  stddev: number;
 }
 
 // Lighthouse metrics scores (0-100)
+// Category scores are null when the audit failed (see CountryReport.status). Older reports stored 0.
 export interface LighthouseMetrics {
-  performance: number;
-  accessibility: number;
-  bestPractices: number;
-  seo: number;
+  performance: number | null;
+  accessibility: number | null;
+  bestPractices: number | null;
+  seo: number | null;
+  runs?: number; // Number of valid runs the median was selected from
+  variance?: Partial<Record<ScoreCategory, ScoreVariance>>;
   audits?: CategorizedAudits;
+  passedAudits?: Record<keyof CategorizedAudits, string[]>; // Ids of passed audits, not recorded by older reports
   timing?: TimingMetrics;
+  pageWeight?: PageWeight | null; // Null when Lighthouse had no resource summary
+  thirdParties?: ThirdPartyEntity[] | null; // Null when Lighthouse could not summarise third parties
+  screenshots?: PageScreenshots | null; // Null when Lighthouse captured no screenshots
 }
 
+// Screenshot image written next to a detail file
+export interface ScreenshotFrame {
+  path: string; // Relative to public/data/reports
+  timing: number; // Milliseconds since navigation start
+}
+
+export interface PageScreenshots {
+  final: ScreenshotFrame | null;
+  thumbnails: ScreenshotFrame[]; // Load filmstrip, in time order
+}
+
+// Device profile a Lighthouse audit was run with
+export type FormFactor = 'mobile' | 'desktop';
+
+// Outcome of auditing a site
+export type AuditStatus =
+  | 'ok'
+  | 'timeout'
+  | 'navigation-error'
+  | 'dns-error'
+  | 'tls-error'
+  | 'blocked'
+  | 'http-error'
+  | 'error';
+
 // Individual country report
 export interface CountryReport {
   country: string;
   tld: string;
   url: string;
   timestamp: string;
+  formFactor?: FormFactor; // Missing on reports that predate mobile audits (desktop)
+  status?: AuditStatus; // Missing on reports that predate explicit audit statuses
+  error?: string; // Error message when the audit failed
   metrics: LighthouseMetrics;
 }
 
@@ -59,7 +309,8 @@ export interface CountryReport {
 export interface MonthlyReport {
   month: string; // YYYY-MM format
   generatedAt: string;
-  reports: CountryReport[];
+  reports: CountryReport[]; // Desktop audits
+  mobileReports?: CountryReport[];
 }
 
 // Ranking information
@@ -68,13 +319,17 @@ export interface CountryRanking {
   tld: string;
   rank?: number;
   score: number;
+  status: AuditStatus;
   previousRank?: number;
   change?: number; // positive = moved up, negative = moved down
 }
 
+// Month a ranking is compared against to work out rank changes
+export type ComparisonBaseline = 'previous' | 'year' | 'first';
+
 // Rankings by metric
 export interface MetricRankings {
-  metric: keyof LighthouseMetrics;
+  metric: RankingMetric;
   rankings: CountryRanking[];
 }
 
@@ -93,6 +348,15 @@ export interface CountryHistoricalData {
   accessibility: HistoricalDataPoint[];
   bestPractices: HistoricalDataPoint[];
   seo: HistoricalDataPoint[];
+  overall: HistoricalDataPoint[];
+}
+
+// Aggregate category scores for a group of countries
+export interface GroupScores {
+  group: CountryGroup;
+  countryCount: number; // Countries with a successful audit
+  average: Record<ScoreCategory, number>;
+  median: Record<ScoreCategory, number>;
 }
 
 // Report manifest for discovery
@@ -0,0 +1,71 @@
+import { AuditIssue, CommonAuditFailure, CountryReport } from '@/types';
+import { isAuditSuccessful } from '@/utils/auditStatus';
+import { isFailingAudit } from '@/utils/auditDiff';
+import { SCORE_CATEGORIES } from '@/utils/dataLoader';
+
+const SEVERITY_VALUES: Record<AuditIssue['severity'], number> = {
+  low: 1,
+  medium: 2,
+  high: 3,
+};
+
+/**
+ * Label an average severity value (1-3) with the closest severity level
+ */
+export function getSeverityLabel(averageSeverity: number): AuditIssue['severity'] {
+  if (averageSeverity >= 2.5) return 'high';
+  if (averageSeverity >= 1.5) return 'medium';
+  return 'low';
+}
+
+/**
+ * Group failing audits across country detail reports, most widespread first
+ */
+export function aggregateFailingAudits(reports: CountryReport[]): CommonAuditFailure[] {
+  const failures = new Map<string, CommonAuditFailure>();
+
+  reports.filter(isAuditSuccessful).forEach((report) => {
+    const audits = report.metrics.audits;
+    if (!audits) return;
+
+    SCORE_CATEGORIES.forEach((category) => {
+      (audits[category] || []).filter(isFailingAudit).forEach((audit) => {
+        const key = `${category}:${audit.id}`;
+        const failure = failures.get(key) ?? {
+          id: audit.id,
+          title: audit.title,
+          description: audit.description,
+          category,
+          countries: [],
+          averageSeverity: 0,
+          averageWeight: 0,
+        };
+
+        failure.countries.push({
+          country: report.country,
+          tld: report.tld,
+          score: audit.score,
+          severity: audit.severity,
+        });
+        // Accumulate totals here and turn them into averages below
+        failure.averageSeverity += SEVERITY_VALUES[audit.severity];
+        failure.averageWeight += audit.weight;
+        failures.set(key, failure);
+      });
+    });
+  });
+
+  return [...failures.values()]
+    .map((failure) => ({
+      ...failure,
+      countries: failure.countries.sort((a, b) => a.country.localeCompare(b.country)),
+      averageSeverity: Math.round((failure.averageSeverity / failure.countries.length) * 10) / 10,
+      averageWeight: Math.round((failure.averageWeight / failure.countries.length) * 10) / 10,
+    }))
+    .sort((a, b) =>
+      b.countries.length - a.countries.length ||
+      b.averageSeverity - a.averageSeverity ||
+      b.averageWeight - a.averageWeight ||
+      a.title.localeCompare(b.title)
+    );
+}
@@ -0,0 +1,60 @@
+import { AuditComparisonRow, CountryReport } from '@/types';
+import { isAuditSuccessful } from '@/utils/auditStatus';
+import { isFailingAudit } from '@/utils/auditDiff';
+import { SCORE_CATEGORIES } from '@/utils/dataLoader';
+
+/**
+ * Build a matrix of every audit failing in at least one of the given country detail reports.
+ * Detail files only list issues, so an audit counts as passed when the report records it as passed.
+ * Otherwise it is "not audited": it may not exist in that report's Lighthouse version, and older
+ * reports did not record passed audits. Countries whose audit failed have no data for any row.
+ * Audits some countries pass while others fail come first, then the most widespread failures.
+ */
+export function compareAudits(reports: CountryReport[]): AuditComparisonRow[] {
+  const completed = reports.filter(isAuditSuccessful);
+  const rows = new Map<string, AuditComparisonRow>();
+
+  completed.forEach((report) => {
+    SCORE_CATEGORIES.forEach((category) => {
+      (report.metrics.audits?.[category] || []).filter(isFailingAudit).forEach((audit) => {
+        const key = `${category}:${audit.id}`;
+        if (!rows.has(key)) {
+          rows.set(key, {
+            id: audit.id,
+            title: audit.title,
+            category,
+            results: {},
+            passingTlds: [],
+            failingTlds: [],
+          });
+        }
+      });
+    });
+  });
+
+  rows.forEach((row) => {
+    reports.forEach((report) => {
+      if (!isAuditSuccessful(report) || !report.metrics.audits) {
+        row.results[report.tld] = { result: 'no-data', score: null };
+        return;
+      }
+
+      const audit = (report.metrics.audits[row.category] || []).find((issue) => issue.id === row.id);
+      if (audit && isFailingAudit(audit)) {
+        row.results[report.tld] = { result: 'fail', score: audit.score };
+        row.failingTlds.push(report.tld);
+      } else if (audit || report.metrics.passedAudits?.[row.category]?.includes(row.id)) {
+        row.results[report.tld] = { result: 'pass', score: audit?.score ?? 1 };
+        row.passingTlds.push(report.tld);
+      } else {
+        row.results[report.tld] = { result: 'not-audited', score: null };
+      }
+    });
+  });
+
+  return [...rows.values()].sort((a, b) =>
+    Number(b.passingTlds.length > 0) - Number(a.passingTlds.length > 0) ||
+    b.failingTlds.length - a.failingTlds.length ||
+    a.title.localeCompare(b.title)
+  );
+}
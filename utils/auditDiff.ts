@@ -0,0 +1,77 @@
+import { AuditChange, AuditDiff, AuditIssue, CategorizedAudits } from '@/types';
+import { SCORE_CATEGORIES } from '@/utils/dataLoader';
+import { isFailingAudit } from '@/utils/reportScoring';
+
+// Detail files also keep informative audits (which always pass) for context
+export { isFailingAudit };
+
+/**
+ * Classify every failing audit of the current month relative to the previous month:
+ * - new: failing now, not failing in the previous month
+ * - resolved: failing in the previous month, passed now
+ * - regressed: failing in both months with a lower score now
+ * - persisting: failing in both months without getting worse
+ * - notAudited: failing in the previous month, not recorded now
+ *
+ * Detail files only list issues, so an audit only counts as resolved when the current report
+ * records it as passed (`passedAudits`). Otherwise it may have been removed by a Lighthouse
+ * upgrade, and reports from before passed audits were recorded cannot tell.
+ */
+export function diffAudits(
+  current: CategorizedAudits,
+  previous: CategorizedAudits,
+  previousMonth: string,
+  passedAudits?: Record<keyof CategorizedAudits, string[]>
+): AuditDiff {
+  const diff: AuditDiff = {
+    previousMonth,
+    new: [],
+    resolved: [],
+    regressed: [],
+    persisting: [],
+    notAudited: [],
+  };
+
+  SCORE_CATEGORIES.forEach((category) => {
+    const currentFailing = new Map(
+      (current[category] || []).filter(isFailingAudit).map((audit) => [audit.id, audit])
+    );
+    const previousFailing = new Map(
+      (previous[category] || []).filter(isFailingAudit).map((audit) => [audit.id, audit])
+    );
+
+    currentFailing.forEach((audit, id) => {
+      const previousAudit = previousFailing.get(id);
+      const change: AuditChange = {
+        type: 'new',
+        category,
+        audit,
+        previousScore: previousAudit?.score ?? null,
+        currentScore: audit.score,
+      };
+
+      if (!previousAudit) {
+        diff.new.push(change);
+      } else if ((audit.score ?? 0) < (previousAudit.score ?? 0)) {
+        diff.regressed.push({ ...change, type: 'regressed' });
+      } else {
+        diff.persisting.push({ ...change, type: 'persisting' });
+      }
+    });
+
+    previousFailing.forEach((audit, id) => {
+      if (currentFailing.has(id)) return;
+      const currentAudit = (current[category] || []).find((issue) => issue.id === id);
+      const passed = currentAudit !== undefined || passedAudits?.[category]?.includes(id);
+      diff[passed ? 'resolved' : 'notAudited'].push({
+        type: passed ? 'resolved' : 'not-audited',
+        category,
+        audit,
+        previousScore: audit.score,
+        currentScore: currentAudit?.score ?? null,
+      });
+    });
+  });
+
+  return diff;
+}
@@ -0,0 +1,30 @@
+import { AuditStatus, CountryReport } from '@/types';
+import { getAuditStatus } from '@/utils/reportScoring';
+
+export { getAuditStatus, isAuditSuccessful } from '@/utils/reportScoring';
+
+// Human readable reasons shown when an audit did not complete
+export const AUDIT_STATUS_DESCRIPTIONS: Record<AuditStatus, string> = {
+  ok: 'The audit completed successfully',
+  timeout: 'the page took too long to load',
+  'navigation-error': 'the page could not be loaded',
+  'dns-error': 'the domain name could not be resolved',
+  'tls-error': 'the secure connection (TLS certificate) could not be established',
+  blocked: 'the site blocked the automated audit',
+  'http-error': 'the server responded with an error',
+  error: 'Lighthouse ran into an unexpected error',
+};
+
+/**
+ * Describe why an audit failed, e.g. "Audit failed because the page took too long to load"
+ */
+export function getAuditFailureReason(report: CountryReport): string {
+  const status = getAuditStatus(report);
+  if (status === 'ok') {
+    return AUDIT_STATUS_DESCRIPTIONS.ok;
+  }
+  if (!report.status) {
+    return 'Audit failed (the reason was not recorded for this report)';
+  }
+  return `Audit failed because ${AUDIT_STATUS_DESCRIPTIONS[status]}`;
+}
@@ -0,0 +1,8 @@
+import { ScoreCategory } from '@/types';
+import compositeIndexWeights from './compositeIndexWeights.json';
+
+// Weight of each category in the overall index, in percent (also read by the build scripts)
+export const COMPOSITE_INDEX_WEIGHTS: Record<ScoreCategory, number> = compositeIndexWeights;
+
+// Overall index: weighted average of the four category scores, rounded to one decimal
+export { calculateCompositeScore } from '@/utils/reportScoring';
@@ -0,0 +1,73 @@
+import { Country, CountryGroup, GroupScores, MonthlyReport, ScoreCategory } from '@/types';
+import { isAuditSuccessful } from '@/utils/auditStatus';
+import { SCORE_CATEGORIES, getMetricScore } from '@/utils/dataLoader';
+
+export const COUNTRY_GROUP_LABELS: Record<CountryGroup, string> = {
+  eu: 'European Union',
+  eea: 'European Economic Area',
+  efta: 'EFTA',
+  nordic: 'Nordic countries',
+  baltic: 'Baltic states',
+  'western-balkans': 'Western Balkans',
+  'eu-candidate': 'EU candidate countries',
+};
+
+export const COUNTRY_GROUPS = Object.keys(COUNTRY_GROUP_LABELS) as CountryGroup[];
+
+/**
+ * Get the TLDs of the countries in a group
+ */
+export function getGroupMembers(countries: Country[], group: CountryGroup): Set<string> {
+  return new Set(
+    countries.filter((country) => country.groups?.includes(group)).map((country) => country.tld)
+  );
+}
+
+/**
+ * Narrow a monthly report down to the countries of a group
+ */
+export function filterReportByGroup(
+  report: MonthlyReport,
+  countries: Country[],
+  group: CountryGroup
+): MonthlyReport {
+  const members = getGroupMembers(countries, group);
+  return {
+    ...report,
+    reports: report.reports.filter((r) => members.has(r.tld)),
+    mobileReports: report.mobileReports?.filter((r) => members.has(r.tld)),
+  };
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Calculate average and median category scores for every group, leaving out failed audits
+ */
+export function calculateGroupScores(report: MonthlyReport, countries: Country[]): GroupScores[] {
+  return COUNTRY_GROUPS.map((group) => {
+    const members = getGroupMembers(countries, group);
+    const reports = report.reports.filter((r) => members.has(r.tld) && isAuditSuccessful(r));
+
+    const average = {} as Record<ScoreCategory, number>;
+    const medianScores = {} as Record<ScoreCategory, number>;
+    SCORE_CATEGORIES.forEach((category) => {
+      const scores = reports.map((r) => getMetricScore(r, category)).filter((score) => score > 0);
+      average[category] = scores.length > 0
+        ? Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length)
+        : 0;
+      medianScores[category] = scores.length > 0 ? median(scores) : 0;
+    });
+
+    return {
+      group,
+      countryCount: reports.length,
+      average,
+      median: medianScores,
+    };
+  }).filter((scores) => scores.countryCount > 0);
+}
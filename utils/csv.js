@@ -0,0 +1,37 @@
+// CSV serialisation shared by the dashboard's downloads (utils/export.ts) and the
+// history export script. Plain CommonJS so that Node can require it.
+
+/** @typedef {string | number | boolean | null | undefined} CsvValue */
+
+// Spreadsheet apps (Excel in particular) need the BOM to read the file as UTF-8
+const UTF8_BOM = '\uFEFF';
+
+/**
+ * @param {CsvValue} value
+ * @returns {string}
+ */
+function escapeCsvValue(value) {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serialise rows to CSV (RFC 4180, CRLF line endings).
+ * Columns default to the keys of the first row, in order.
+ * @param {Record<string, CsvValue>[]} rows
+ * @param {string[]} [columns]
+ * @returns {string}
+ */
+function toCsv(rows, columns = Object.keys(rows[0] ?? {})) {
+  const lines = [
+    columns.map(escapeCsvValue).join(','),
+    ...rows.map((row) => columns.map((column) => escapeCsvValue(row[column])).join(',')),
+  ];
+  return UTF8_BOM + lines.join('\r\n') + '\r\n';
+}
+
+module.exports = {
+  escapeCsvValue,
+  toCsv,
+};
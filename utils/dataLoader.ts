@@ -1,7 +1,17 @@
-import { Country, MonthlyReport, CountryReport, ReportManifest, CountryHistoricalData, MetricRankings, LighthouseMetrics } from '@/types';
+import { Country, MonthlyReport, CountryReport, CountryRanking, ReportManifest, CountryHistoricalData, MetricRankings, FormFactor, RankingMetric, ScoreCategory, ComparisonBaseline } from '@/types';
+import { getAuditStatus, isAuditSuccessful } from '@/utils/auditStatus';
+import { calculateCompositeScore } from '@/utils/compositeIndex';
+import * as reportScoring from '@/utils/reportScoring';
+import type { RecommendationCatalog } from '@/utils/auditRecommendations';
+import type { Topology } from 'topojson-specification';
 
 const BASE_PATH = process.env.NODE_ENV === 'production' ? '/gov-web-performance' : '';
 
+export const FORM_FACTORS: FormFactor[] = reportScoring.FORM_FACTORS;
+
+// Reports written before mobile audits were added only contain desktop runs
+export const DEFAULT_FORM_FACTOR: FormFactor = 'desktop';
+
 /**
  * Fetch countries data
  */
@@ -14,6 +24,36 @@ export async function fetchCountries(): Promise<Country[]> {
   return data.countries;
 }
 
+/**
+ * Fetch the TopoJSON shapes of the audited countries and their neighbours
+ * (generated by scripts/build-europe-map.js)
+ */
+export async function fetchEuropeMap(): Promise<Topology> {
+  const response = await fetch(`${BASE_PATH}/data/europe.topo.json`);
+  if (!response.ok) {
+    throw new Error('Failed to fetch map data');
+  }
+  return response.json();
+}
+
+/**
+ * Fetch the curated audit recommendations (generated by scripts/build-recommendations.js).
+ * Returns an empty catalog on failure so that pages fall back to the Lighthouse descriptions.
+ */
+export async function fetchRecommendations(): Promise<RecommendationCatalog> {
+  try {
+    const response = await fetch(`${BASE_PATH}/data/recommendations.json`);
+    if (!response.ok) {
+      return {};
+    }
+    const data = await response.json();
+    return data.recommendations;
+  } catch (error) {
+    console.error('Failed to fetch recommendations:', error);
+    return {};
+  }
+}
+
 /**
  * Fetch report manifest
  */
@@ -48,14 +88,16 @@ export async function fetchMonthlySummary(month: string): Promise<MonthlyReport
 }
 
 /**
- * Fetch detailed country report for a specific month and country
+ * Fetch detailed country report for a specific month, country and form factor
  */
 export async function fetchCountryDetail(
   month: string,
-  tld: string
+  tld: string,
+  formFactor: FormFactor = DEFAULT_FORM_FACTOR
 ): Promise<CountryReport | null> {
+  const detailPath = formFactor === 'mobile' ? `${month}/mobile/${tld}.json` : `${month}/${tld}.json`;
   try {
-    const response = await fetch(`${BASE_PATH}/data/reports/${month}/${tld}.json`);
+    const response = await fetch(`${BASE_PATH}/data/reports/${detailPath}`);
     if (!response.ok) {
       return null;
     }
@@ -66,6 +108,31 @@ export async function fetchCountryDetail(
   }
 }
 
+/**
+ * Fetch the detailed reports of every country audited in a month
+ */
+export async function fetchMonthCountryDetails(
+  month: string,
+  formFactor: FormFactor = DEFAULT_FORM_FACTOR
+): Promise<CountryReport[]> {
+  const summary = await fetchMonthlySummary(month);
+  if (!summary) {
+    return [];
+  }
+
+  const details = await Promise.all(
+    selectFormFactor(summary, formFactor).reports.map(({ tld }) => fetchCountryDetail(month, tld, formFactor))
+  );
+  return details.filter((detail): detail is CountryReport => detail !== null);
+}
+
+/**
+ * URL of a file stored alongside the reports, such as a screenshot
+ */
+export function getReportFileUrl(relativePath: string): string {
+  return `${BASE_PATH}/data/reports/${relativePath}`;
+}
+
 /**
  * Fetch a specific monthly report (DEPRECATED - use fetchMonthlySummary instead)
  * Kept for backward compatibility
@@ -124,20 +191,90 @@ export async function getLatestMonth(): Promise<string | null> {
   return manifest.reports[0].month;
 }
 
-type RankingMetric = 'performance' | 'accessibility' | 'bestPractices' | 'seo';
+export const COMPARISON_BASELINE_LABELS: Record<ComparisonBaseline, string> = {
+  previous: 'Previous month',
+  year: 'Same month last year',
+  first: 'First month on record',
+};
 
-function getMetricScore(report: CountryReport, metric: RankingMetric): number {
-  const score = report.metrics[metric];
-  return typeof score === 'number' ? score : 0;
+/**
+ * Get the month a ranking should be compared against, or null when no such month has a report
+ */
+export function getBaselineMonth(
+  months: string[],
+  month: string,
+  baseline: ComparisonBaseline
+): string | null {
+  const earlierMonths = months.filter((m) => m < month).sort();
+  if (earlierMonths.length === 0) {
+    return null;
+  }
+
+  switch (baseline) {
+    case 'previous':
+      return earlierMonths[earlierMonths.length - 1];
+    case 'year': {
+      const [year, monthOfYear] = month.split('-');
+      const sameMonthLastYear = `${Number(year) - 1}-${monthOfYear}`;
+      return earlierMonths.includes(sameMonthLastYear) ? sameMonthLastYear : null;
+    }
+    case 'first':
+      return earlierMonths[0];
+  }
 }
 
-function hasValidMetricScore(report: CountryReport, metric: RankingMetric): boolean {
-  // A score of 0 currently indicates failed/invalid reporting and should not be ranked.
-  return getMetricScore(report, metric) > 0;
+/**
+ * Narrow a monthly report down to the country reports of a single form factor
+ */
+export function selectFormFactor(report: MonthlyReport, formFactor: FormFactor): MonthlyReport {
+  return {
+    ...report,
+    reports: formFactor === 'mobile' ? report.mobileReports ?? [] : report.reports,
+  };
+}
+
+export const SCORE_CATEGORIES: ScoreCategory[] = reportScoring.SCORE_CATEGORIES;
+
+export const RANKING_METRICS: RankingMetric[] = reportScoring.RANKING_METRICS;
+
+export const RANKING_METRIC_LABELS: Record<RankingMetric, string> = reportScoring.RANKING_METRIC_LABELS;
+
+/**
+ * Format a YYYY-MM month identifier for display, e.g. "March 2026"
+ */
+export function formatMonth(month: string, monthStyle: 'long' | 'short' = 'long'): string {
+  return new Date(`${month}-01T00:00:00Z`).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: monthStyle,
+    timeZone: 'UTC',
+  });
 }
 
 /**
- * Sort reports by score desc and assign dense ranks (1,1,2...).
+ * Format a timing metric in ms (or a unitless one such as CLS when unit is '')
+ */
+export function formatTiming(value: number | null, unit: string = 'ms'): string {
+  if (value === null) return 'N/A';
+  if (unit === 'ms') {
+    return value > 1000 ? `${(value / 1000).toFixed(2)} s` : `${Math.round(value)} ms`;
+  }
+  return `${value.toFixed(3)}`;
+}
+
+/**
+ * Format a transfer size in bytes as KB or MB (1 KB = 1024 bytes, as in Lighthouse)
+ */
+export function formatBytes(bytes: number | null): string {
+  if (bytes === null) return 'N/A';
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+  return `${Math.round(bytes / 1024)} KB`;
+}
+
+// Scores of failed audits are null; these read a category Lighthouse could not score as 0
+export const { getMetricScore, getCategoryScores, hasValidMetricScore } = reportScoring;
+
+/**
+ * Sort reports by score desc, unranked last, with their dense ranks (1,1,2...)
  */
 function buildRankMap(
   reports: CountryReport[],
@@ -161,24 +298,7 @@ function buildRankMap(
     return a.country.localeCompare(b.country) || a.tld.localeCompare(b.tld);
   });
 
-  const rankByTld = new Map<string, number>();
-  let previousScore: number | undefined;
-  let currentRank = 0;
-
-  sorted.forEach((report) => {
-    if (!hasValidMetricScore(report, metric)) {
-      return;
-    }
-
-    const score = getMetricScore(report, metric);
-    if (previousScore === undefined || score !== previousScore) {
-      currentRank += 1;
-      previousScore = score;
-    }
-    rankByTld.set(report.tld, currentRank);
-  });
-
-  return { sorted, rankByTld };
+  return { sorted, rankByTld: reportScoring.rankReports(reports, metric) };
 }
 
 /**
@@ -207,6 +327,7 @@ export function calculateRankings(
       tld: report.tld,
       rank,
       score: getMetricScore(report, metric),
+      status: getAuditStatus(report),
       previousRank,
       change,
     };
@@ -218,6 +339,21 @@ export function calculateRankings(
   };
 }
 
+/**
+ * Ranking of one country on every metric, without change indicators
+ */
+export function getCountryRankings(
+  report: MonthlyReport,
+  tld: string
+): Partial<Record<RankingMetric, CountryRanking>> {
+  return Object.fromEntries(
+    RANKING_METRICS.map((metric) => [
+      metric,
+      calculateRankings(report, null, metric).rankings.find((ranking) => ranking.tld === tld),
+    ])
+  );
+}
+
 /**
  * Get historical data for a specific country
  */
@@ -233,11 +369,12 @@ export function getCountryHistoricalData(
       countryReport: report.reports.find(r => r.tld === tld),
       allReports: report.reports,
     }))
+    // Failed audits have no scores, so they leave a gap in the series
     .filter((entry): entry is {
       month: string;
       countryReport: CountryReport;
       allReports: CountryReport[];
-    } => entry.countryReport !== undefined);
+    } => entry.countryReport !== undefined && isAuditSuccessful(entry.countryReport));
 
   if (countryReportsByMonth.length === 0) {
     return null;
@@ -259,47 +396,37 @@ export function getCountryHistoricalData(
     tld: firstReport.tld,
     performance: countryReportsByMonth.map(({ month, countryReport, allReports }) => ({
       month,
-      value: countryReport.metrics.performance,
+      value: getMetricScore(countryReport, 'performance'),
       rank: getDenseRankForMetric(allReports, countryReport.tld, 'performance'),
     })),
     accessibility: countryReportsByMonth.map(({ month, countryReport, allReports }) => ({
       month,
-      value: countryReport.metrics.accessibility,
+      value: getMetricScore(countryReport, 'accessibility'),
       rank: getDenseRankForMetric(allReports, countryReport.tld, 'accessibility'),
     })),
     bestPractices: countryReportsByMonth.map(({ month, countryReport, allReports }) => ({
       month,
-      value: countryReport.metrics.bestPractices,
+      value: getMetricScore(countryReport, 'bestPractices'),
       rank: getDenseRankForMetric(allReports, countryReport.tld, 'bestPractices'),
     })),
     seo: countryReportsByMonth.map(({ month, countryReport, allReports }) => ({
       month,
-      value: countryReport.metrics.seo,
+      value: getMetricScore(countryReport, 'seo'),
       rank: getDenseRankForMetric(allReports, countryReport.tld, 'seo'),
     })),
+    // The index needs every category score, so months it cannot be computed for are left out
+    overall: countryReportsByMonth.flatMap(({ month, countryReport, allReports }) => {
+      const value = calculateCompositeScore(countryReport.metrics);
+      return value === null
+        ? []
+        : [{ month, value, rank: getDenseRankForMetric(allReports, countryReport.tld, 'overall') }];
+    }),
   };
 }
 
 /**
- * Calculate average scores across all countries
+ * Calculate average scores across all countries, leaving out failed audits
  */
-export function calculateAverageScores(report: MonthlyReport): LighthouseMetrics {
-  const totals = report.reports.reduce(
-    (acc, r) => ({
-      performance: acc.performance + r.metrics.performance,
-      accessibility: acc.accessibility + r.metrics.accessibility,
-      bestPractices: acc.bestPractices + r.metrics.bestPractices,
-      seo: acc.seo + r.metrics.seo,
-    }),
-    { performance: 0, accessibility: 0, bestPractices: 0, seo: 0 }
-  );
-
-  const count = report.reports.length;
-
-  return {
-    performance: Math.round(totals.performance / count),
-    accessibility: Math.round(totals.accessibility / count),
-    bestPractices: Math.round(totals.bestPractices / count),
-    seo: Math.round(totals.seo / count),
-  };
+export function calculateAverageScores(report: MonthlyReport): Record<ScoreCategory, number> {
+  return reportScoring.calculateAverageScores(report.reports);
 }
@@ -0,0 +1,47 @@
+import { CountryHistoricalData } from '@/types';
+import { RANKING_METRICS } from '@/utils/dataLoader';
+import { toCsv } from '@/utils/csv';
+
+export type ExportValue = string | number | boolean | null | undefined;
+export type ExportRow = Record<string, ExportValue>;
+
+export { toCsv };
+
+/**
+ * Save content as a file from the browser
+ */
+export function downloadFile(filename: string, content: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+export function downloadCsv(filename: string, rows: ExportRow[]): void {
+  downloadFile(`${filename}.csv`, toCsv(rows), 'text/csv;charset=utf-8');
+}
+
+export function downloadJson(filename: string, data: unknown): void {
+  downloadFile(`${filename}.json`, JSON.stringify(data, null, 2), 'application/json');
+}
+
+/**
+ * One row per month with the score and rank of every metric
+ */
+export function historyToRows(history: CountryHistoricalData): ExportRow[] {
+  const months = history.performance.map((point) => point.month);
+  return months.map((month) => {
+    const row: ExportRow = { country: history.country, tld: history.tld, month };
+    RANKING_METRICS.forEach((metric) => {
+      const point = history[metric].find((p) => p.month === month);
+      // Unranked points have no valid score for that metric
+      row[metric] = point?.rank !== undefined ? point.value : null;
+      row[`${metric}Rank`] = point?.rank;
+    });
+    return row;
+  });
+}
@@ -0,0 +1,128 @@
+import { AuditIssue, CategorizedAudits, CountryReport, FixPlanStep, MetricScoringOptions, SavingsMetric } from '@/types';
+import { isFailingAudit } from '@/utils/auditDiff';
+import { SCORE_CATEGORIES, getCategoryScores } from '@/utils/dataLoader';
+
+// Audits scoring the lab metrics Lighthouse reports savings for
+const METRIC_AUDIT_IDS: Record<SavingsMetric, string> = {
+  FCP: 'first-contentful-paint',
+  LCP: 'largest-contentful-paint',
+  TBT: 'total-blocking-time',
+  CLS: 'cumulative-layout-shift',
+  INP: 'interaction-to-next-paint',
+};
+
+export const SAVINGS_METRIC_LABELS: Record<SavingsMetric, string> = {
+  FCP: 'First Contentful Paint',
+  LCP: 'Largest Contentful Paint',
+  TBT: 'Total Blocking Time',
+  CLS: 'Cumulative Layout Shift',
+  INP: 'Interaction to Next Paint',
+};
+
+// Abramowitz and Stegun formula 7.1.26, as used by Lighthouse
+function erf(x: number): number {
+  const sign = Math.sign(x);
+  const t = 1 / (1 + 0.3275911 * Math.abs(x));
+  const y = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  return sign * (1 - y * Math.exp(-x * x));
+}
+
+/**
+ * Score of a metric value on Lighthouse's log-normal curve (0.9 at p10, 0.5 at the median).
+ * Port of getLogNormalScore in lighthouse/shared/statistics.js, without its range clamping.
+ */
+export function getLogNormalScore({ p10, median }: MetricScoringOptions, value: number): number {
+  if (value <= 0) return 1;
+  // Closest double to erfc^-1(1/5)
+  const INVERSE_ERFC_ONE_FIFTH = 0.9061938024368232;
+  const standardizedX = (Math.log(value / median) * INVERSE_ERFC_ONE_FIFTH) / -Math.log(p10 / median);
+  return Math.min(1, Math.max(0, (1 - erf(standardizedX)) / 2));
+}
+
+type ScoredMetric = { weight: number; value: number; scoringOptions: MetricScoringOptions };
+
+// Metric audits of the report that can be rescored; passing metrics are not kept in the detail files
+function getScoredMetrics(audits: AuditIssue[]): Partial<Record<SavingsMetric, ScoredMetric>> {
+  const metrics: Partial<Record<SavingsMetric, ScoredMetric>> = {};
+  (Object.keys(METRIC_AUDIT_IDS) as SavingsMetric[]).forEach((metric) => {
+    const audit = audits.find((a) => a.id === METRIC_AUDIT_IDS[metric]);
+    if (audit?.scoringOptions && audit.numericValue !== null && audit.weight > 0) {
+      metrics[metric] = { weight: audit.weight, value: audit.numericValue, scoringOptions: audit.scoringOptions };
+    }
+  });
+  return metrics;
+}
+
+// Weighted score gained by taking the audit's savings off the current metric values, which are updated
+function applySavings(audit: AuditIssue, metrics: Partial<Record<SavingsMetric, ScoredMetric>>): number {
+  return Object.entries(audit.metricSavings ?? {}).reduce((gain, [metric, saving]) => {
+    const scored = metrics[metric as SavingsMetric];
+    if (!scored || !saving) return gain;
+    const value = Math.max(0, scored.value - saving);
+    const delta = getLogNormalScore(scored.scoringOptions, value) - getLogNormalScore(scored.scoringOptions, scored.value);
+    scored.value = value;
+    return gain + scored.weight * Math.max(0, delta);
+  }, 0);
+}
+
+/**
+ * Rank the fixes of a report by the category points each would recover.
+ *
+ * Only failing audits are kept, so the points a category is missing (100 minus its score)
+ * are shared between its failing audits by weight times lost score. Accessibility, best
+ * practices and SEO fixes recover their whole share. Performance fixes are scored by
+ * rescoring the metrics with Lighthouse's estimated savings taken off.
+ *
+ * Projected scores apply each fix after the ones above it in the same category. Savings
+ * estimates of different audits can overlap, so projections are optimistic.
+ */
+export function getFixPlan(report: CountryReport): FixPlanStep[] {
+  const audits = report.metrics.audits;
+  if (!audits) return [];
+
+  const scores = getCategoryScores(report);
+  const steps: (FixPlanStep & { apply: () => number })[] = [];
+  // Metric values before any fix, and as the plan's fixes are applied in order
+  const metrics = getScoredMetrics(audits.performance || []);
+  const planMetrics = structuredClone(metrics);
+
+  SCORE_CATEGORIES.forEach((category) => {
+    const scored = (audits[category] || []).filter((audit) => isFailingAudit(audit) && audit.weight > 0);
+    const deficit = scored.reduce((sum, audit) => sum + audit.weight * (1 - (audit.score ?? 1)), 0);
+    if (deficit === 0) return;
+    const perDeficit = (100 - scores[category]) / deficit;
+
+    const candidates = category === 'performance'
+      ? (audits.performance || []).filter((audit) => isFailingAudit(audit) && audit.weight === 0 && audit.metricSavings)
+      : scored;
+
+    candidates.forEach((audit) => {
+      const fixed = category === 'performance'
+        // Score each fix alone on a copy of the metrics
+        ? applySavings(audit, structuredClone(metrics))
+        : audit.weight * (1 - (audit.score ?? 1));
+
+      steps.push({
+        id: audit.id,
+        title: audit.title,
+        category,
+        points: fixed * perDeficit,
+        projectedScore: 0,
+        metricSavings: audit.metricSavings ?? {},
+        overallSavingsMs: audit.overallSavingsMs ?? null,
+        overallSavingsBytes: audit.overallSavingsBytes ?? null,
+        apply: () => (category === 'performance' ? applySavings(audit, planMetrics) : fixed) * perDeficit,
+      });
+    });
+  });
+
+  const projected: Partial<Record<keyof CategorizedAudits, number>> = {};
+  return steps
+    .filter((step) => Math.round(step.points * 10) > 0)
+    .sort((a, b) => b.points - a.points || a.title.localeCompare(b.title))
+    .map(({ apply, ...step }) => {
+      const score = Math.min(100, (projected[step.category] ?? scores[step.category]) + apply());
+      projected[step.category] = score;
+      return { ...step, points: Math.round(step.points * 10) / 10, projectedScore: Math.round(score) };
+    });
+}
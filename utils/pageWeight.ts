@@ -0,0 +1,43 @@
+import { CountryPageWeight, CountryReport, ResourceType } from '@/types';
+import { isAuditSuccessful } from '@/utils/auditStatus';
+
+export const RESOURCE_TYPE_LABELS: Record<ResourceType, string> = {
+  document: 'Document',
+  script: 'Script',
+  stylesheet: 'Stylesheet',
+  image: 'Image',
+  font: 'Font',
+  media: 'Media',
+  other: 'Other',
+  thirdParty: 'Third-party',
+};
+
+// Resource types that add up to the total. Third-party requests are included under their own
+// type (script, image...), so the thirdParty entry overlaps these and is left out.
+export const RESOURCE_TYPES_IN_TOTAL: ResourceType[] = ['document', 'script', 'stylesheet', 'image', 'font', 'media', 'other'];
+
+/**
+ * Collect the page weight of every successfully audited country detail report, heaviest first
+ */
+export function getHeaviestPages(reports: CountryReport[]): CountryPageWeight[] {
+  return reports
+    .filter((report) => isAuditSuccessful(report) && report.metrics.pageWeight)
+    .map((report) => ({
+      country: report.country,
+      tld: report.tld,
+      pageWeight: report.metrics.pageWeight!,
+    }))
+    .sort((a, b) =>
+      b.pageWeight.transferSize - a.pageWeight.transferSize ||
+      a.country.localeCompare(b.country)
+    );
+}
+
+/**
+ * Share of the page weight (0-100) loaded from third parties
+ */
+export function getThirdPartyShare(entry: CountryPageWeight): number {
+  const { transferSize, resources } = entry.pageWeight;
+  if (transferSize === 0) return 0;
+  return Math.round(((resources.thirdParty?.transferSize ?? 0) / transferSize) * 100);
+}
@@ -0,0 +1,191 @@
+const compositeIndexWeights = require('./compositeIndexWeights.json');
+
+// Scoring and ranking rules shared by the dashboard (through the typed modules in utils/)
+// and the build scripts (through scripts/lib/reports.js), so that the API, badges, feeds
+// and CSV export always agree with the UI. Plain CommonJS so that Node can require it.
+
+/** @typedef {import('../types').AuditIssue} AuditIssue */
+/** @typedef {import('../types').AuditStatus} AuditStatus */
+/** @typedef {import('../types').CountryReport} CountryReport */
+/** @typedef {import('../types').FormFactor} FormFactor */
+/** @typedef {import('../types').LighthouseMetrics} LighthouseMetrics */
+/** @typedef {import('../types').RankingMetric} RankingMetric */
+/** @typedef {import('../types').ScoreCategory} ScoreCategory */
+
+/** @type {ScoreCategory[]} */
+const SCORE_CATEGORIES = ['performance', 'accessibility', 'bestPractices', 'seo'];
+
+/** @type {RankingMetric[]} */
+const RANKING_METRICS = [...SCORE_CATEGORIES, 'overall'];
+
+/** @type {Record<RankingMetric, string>} */
+const RANKING_METRIC_LABELS = {
+  performance: 'Performance',
+  accessibility: 'Accessibility',
+  bestPractices: 'Best Practices',
+  seo: 'SEO',
+  overall: 'Overall index',
+};
+
+/** @type {FormFactor[]} */
+const FORM_FACTORS = ['desktop', 'mobile'];
+
+/**
+ * Get the audit status of a report.
+ * Reports written before statuses were recorded marked failed audits by setting all scores to 0.
+ * @param {CountryReport} report
+ * @returns {AuditStatus}
+ */
+function getAuditStatus(report) {
+  if (report.status) {
+    return report.status;
+  }
+  return SCORE_CATEGORIES.every((category) => !report.metrics[category]) ? 'error' : 'ok';
+}
+
+/**
+ * @param {CountryReport} report
+ * @returns {boolean}
+ */
+function isAuditSuccessful(report) {
+  return getAuditStatus(report) === 'ok';
+}
+
+/**
+ * Overall index: weighted average of the four category scores, rounded to one decimal.
+ * Returns null when a category has no score, since the index would not be comparable.
+ * @param {LighthouseMetrics} metrics
+ * @returns {number | null}
+ */
+function calculateCompositeScore(metrics) {
+  if (SCORE_CATEGORIES.some((category) => !(metrics[category] > 0))) {
+    return null;
+  }
+
+  const totalWeight = SCORE_CATEGORIES.reduce((sum, category) => sum + compositeIndexWeights[category], 0);
+  const weightedSum = SCORE_CATEGORIES.reduce(
+    (sum, category) => sum + metrics[category] * compositeIndexWeights[category],
+    0
+  );
+  return Math.round((weightedSum / totalWeight) * 10) / 10;
+}
+
+/**
+ * Score band used for colours: the score-<band> classes in the UI and the badge colours
+ * @param {number} score
+ * @returns {'excellent' | 'good' | 'fair' | 'poor'}
+ */
+function getScoreBand(score) {
+  if (score >= 90) return 'excellent';
+  if (score >= 75) return 'good';
+  if (score >= 50) return 'fair';
+  return 'poor';
+}
+
+/**
+ * @param {CountryReport} report
+ * @param {RankingMetric} metric
+ * @returns {number}
+ */
+function getMetricScore(report, metric) {
+  if (metric === 'overall') {
+    return calculateCompositeScore(report.metrics) ?? 0;
+  }
+  const score = report.metrics[metric];
+  return typeof score === 'number' ? score : 0;
+}
+
+/**
+ * Scores of every category of a report, with the categories that have no score as 0
+ * @param {CountryReport} report
+ * @returns {Record<ScoreCategory, number>}
+ */
+function getCategoryScores(report) {
+  return /** @type {Record<ScoreCategory, number>} */ (Object.fromEntries(
+    SCORE_CATEGORIES.map((category) => [category, getMetricScore(report, category)])
+  ));
+}
+
+/**
+ * Failed audits are not ranked. Within a completed audit, Lighthouse leaves a category
+ * it could not score (e.g. no LCP) empty, which the audit script stores as 0.
+ * The overall index is only valid when every category has a score.
+ * @param {CountryReport} report
+ * @param {RankingMetric} metric
+ * @returns {boolean}
+ */
+function hasValidMetricScore(report, metric) {
+  return isAuditSuccessful(report) && getMetricScore(report, metric) > 0;
+}
+
+/**
+ * Average of the valid scores of every category across reports, leaving out failed audits
+ * @param {CountryReport[]} reports
+ * @returns {Record<ScoreCategory, number>}
+ */
+function calculateAverageScores(reports) {
+  return /** @type {Record<ScoreCategory, number>} */ (Object.fromEntries(SCORE_CATEGORIES.map((category) => {
+    const scores = reports
+      .filter((report) => hasValidMetricScore(report, category))
+      .map((report) => getMetricScore(report, category));
+    const average = scores.length > 0 ? scores.reduce((sum, score) => sum + score, 0) / scores.length : 0;
+    return [category, Math.round(average)];
+  })));
+}
+
+/**
+ * Whether an audit issue is an actual failure.
+ * Detail files also keep informative audits (which always pass) for context.
+ * @param {AuditIssue} audit
+ * @returns {boolean}
+ */
+function isFailingAudit(audit) {
+  return audit.scoreDisplayMode !== 'informative' && audit.score !== null && audit.score < 1;
+}
+
+/**
+ * Dense ranks (1, 1, 2...) by TLD for a metric; unranked countries are left out.
+ * Ties are ordered by country name and TLD so that the order is deterministic.
+ * @param {CountryReport[]} reports
+ * @param {RankingMetric} metric
+ * @returns {Map<string, number>}
+ */
+function rankReports(reports, metric) {
+  const ranked = reports
+    .filter((report) => hasValidMetricScore(report, metric))
+    .sort((a, b) =>
+      getMetricScore(b, metric) - getMetricScore(a, metric) ||
+      a.country.localeCompare(b.country) ||
+      a.tld.localeCompare(b.tld)
+    );
+
+  const rankByTld = new Map();
+  let previousScore;
+  let currentRank = 0;
+  for (const report of ranked) {
+    const score = getMetricScore(report, metric);
+    if (previousScore === undefined || score !== previousScore) {
+      currentRank += 1;
+      previousScore = score;
+    }
+    rankByTld.set(report.tld, currentRank);
+  }
+  return rankByTld;
+}
+
+module.exports = {
+  SCORE_CATEGORIES,
+  RANKING_METRICS,
+  RANKING_METRIC_LABELS,
+  FORM_FACTORS,
+  getAuditStatus,
+  isAuditSuccessful,
+  calculateCompositeScore,
+  getScoreBand,
+  getMetricScore,
+  getCategoryScores,
+  hasValidMetricScore,
+  calculateAverageScores,
+  isFailingAudit,
+  rankReports,
+};
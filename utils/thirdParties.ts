@@ -0,0 +1,89 @@
+import { CountryReport, ThirdPartyUsage } from '@/types';
+import { isAuditSuccessful } from '@/utils/auditStatus';
+
+// Categories of the third-party-web dataset Lighthouse classifies entities with
+export const THIRD_PARTY_CATEGORY_LABELS: Record<string, string> = {
+  ad: 'Advertising',
+  analytics: 'Analytics',
+  social: 'Social',
+  video: 'Video',
+  'tag-manager': 'Tag manager',
+  'consent-provider': 'Consent provider',
+  'customer-success': 'Customer support',
+  marketing: 'Marketing',
+  content: 'Content',
+  cdn: 'CDN',
+  hosting: 'Hosting',
+  utility: 'Utility',
+  other: 'Other',
+  unknown: 'Unclassified',
+};
+
+// Categories most likely to raise privacy or policy questions on a government site
+export const POLICY_CATEGORIES = ['ad', 'analytics', 'social', 'marketing'];
+
+export function getThirdPartyCategoryLabel(category: string): string {
+  return THIRD_PARTY_CATEGORY_LABELS[category] ?? category;
+}
+
+/**
+ * Group third parties across country detail reports, most widespread first
+ */
+export function aggregateThirdParties(reports: CountryReport[]): ThirdPartyUsage[] {
+  const usages = new Map<string, ThirdPartyUsage>();
+
+  reports.filter(isAuditSuccessful).forEach((report) => {
+    (report.metrics.thirdParties || []).forEach((entity) => {
+      const usage = usages.get(entity.name) ?? {
+        name: entity.name,
+        category: entity.category,
+        countries: [],
+        totalTransferSize: 0,
+        totalBlockingTime: null,
+        totalMainThreadTime: 0,
+      };
+
+      usage.countries.push({
+        country: report.country,
+        tld: report.tld,
+        transferSize: entity.transferSize,
+        blockingTime: entity.blockingTime,
+        mainThreadTime: entity.mainThreadTime,
+      });
+      usage.totalTransferSize += entity.transferSize;
+      usage.totalMainThreadTime += entity.mainThreadTime ?? 0;
+      if (entity.blockingTime !== null) {
+        usage.totalBlockingTime = (usage.totalBlockingTime ?? 0) + entity.blockingTime;
+      }
+      usages.set(entity.name, usage);
+    });
+  });
+
+  return [...usages.values()]
+    .map((usage) => ({
+      ...usage,
+      countries: usage.countries.sort((a, b) => a.country.localeCompare(b.country)),
+    }))
+    .sort((a, b) =>
+      b.countries.length - a.countries.length ||
+      (b.totalBlockingTime ?? 0) - (a.totalBlockingTime ?? 0) ||
+      b.totalMainThreadTime - a.totalMainThreadTime ||
+      a.name.localeCompare(b.name)
+    );
+}
+
+/**
+ * Count the sites loading at least one third party of each category
+ */
+export function countSitesByCategory(usages: ThirdPartyUsage[]): { category: string; siteCount: number }[] {
+  const sites = new Map<string, Set<string>>();
+  usages.forEach((usage) => {
+    const tlds = sites.get(usage.category) ?? new Set<string>();
+    usage.countries.forEach(({ tld }) => tlds.add(tld));
+    sites.set(usage.category, tlds);
+  });
+
+  return [...sites.entries()]
+    .map(([category, tlds]) => ({ category, siteCount: tlds.size }))
+    .sort((a, b) => b.siteCount - a.siteCount || a.category.localeCompare(b.category));
+}
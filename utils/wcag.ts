@@ -0,0 +1,182 @@
+import {
+  AuditIssue,
+  CountryReport,
+  WcagCriterion,
+  WcagCriterionFailure,
+  WcagCriterionResult,
+  WcagLevel,
+  WcagPrinciple,
+} from '@/types';
+import { isAuditSuccessful } from '@/utils/auditStatus';
+import { isFailingAudit } from '@/utils/auditDiff';
+
+export const WCAG_PRINCIPLES: WcagPrinciple[] = ['perceivable', 'operable', 'understandable', 'robust'];
+
+export const WCAG_PRINCIPLE_LABELS: Record<WcagPrinciple, string> = {
+  perceivable: 'Perceivable',
+  operable: 'Operable',
+  understandable: 'Understandable',
+  robust: 'Robust',
+};
+
+export const WCAG_LEVEL_TAG_TYPES = {
+  A: 'red',
+  AA: 'magenta',
+  AAA: 'purple',
+} as const;
+
+// Principle of a criterion, from the first number of its id
+const PRINCIPLE_BY_NUMBER: Record<string, WcagPrinciple> = {
+  '1': 'perceivable',
+  '2': 'operable',
+  '3': 'understandable',
+  '4': 'robust',
+};
+
+// WCAG 2.2 success criteria that Lighthouse's accessibility audits check
+const CRITERIA: [id: string, title: string, level: WcagLevel][] = [
+  ['1.1.1', 'Non-text Content', 'A'],
+  ['1.2.2', 'Captions (Prerecorded)', 'A'],
+  ['1.3.1', 'Info and Relationships', 'A'],
+  ['1.3.5', 'Identify Input Purpose', 'AA'],
+  ['1.4.1', 'Use of Color', 'A'],
+  ['1.4.3', 'Contrast (Minimum)', 'AA'],
+  ['1.4.4', 'Resize Text', 'AA'],
+  ['2.2.1', 'Timing Adjustable', 'A'],
+  ['2.2.4', 'Interruptions', 'AAA'],
+  ['2.4.1', 'Bypass Blocks', 'A'],
+  ['2.4.2', 'Page Titled', 'A'],
+  ['2.4.4', 'Link Purpose (In Context)', 'A'],
+  ['2.4.9', 'Link Purpose (Link Only)', 'AAA'],
+  ['2.5.3', 'Label in Name', 'A'],
+  ['2.5.8', 'Target Size (Minimum)', 'AA'],
+  ['3.1.1', 'Language of Page', 'A'],
+  ['3.1.2', 'Language of Parts', 'AA'],
+  ['3.2.5', 'Change on Request', 'AAA'],
+  ['3.3.2', 'Labels or Instructions', 'A'],
+  ['4.1.2', 'Name, Role, Value', 'A'],
+];
+
+export const WCAG_CRITERIA: Record<string, WcagCriterion> = Object.fromEntries(
+  CRITERIA.map(([id, title, level]) => [id, { id, title, level, principle: PRINCIPLE_BY_NUMBER[id[0]] }])
+);
+
+// Success criteria each Lighthouse accessibility audit tests, following the WCAG tags of the
+// underlying axe-core rules. Audits axe tags as best practice only (e.g. heading-order) are left out.
+export const AUDIT_WCAG_CRITERIA: Record<string, string[]> = {
+  'aria-allowed-attr': ['4.1.2'],
+  'aria-command-name': ['4.1.2'],
+  'aria-conditional-attr': ['4.1.2'],
+  'aria-deprecated-role': ['4.1.2'],
+  'aria-hidden-body': ['4.1.2'],
+  'aria-hidden-focus': ['4.1.2'],
+  'aria-input-field-name': ['4.1.2'],
+  'aria-meter-name': ['1.1.1'],
+  'aria-progressbar-name': ['1.1.1'],
+  'aria-prohibited-attr': ['4.1.2'],
+  'aria-required-attr': ['4.1.2'],
+  'aria-required-children': ['1.3.1'],
+  'aria-required-parent': ['1.3.1'],
+  'aria-roles': ['4.1.2'],
+  'aria-toggle-field-name': ['4.1.2'],
+  'aria-tooltip-name': ['4.1.2'],
+  'aria-valid-attr': ['4.1.2'],
+  'aria-valid-attr-value': ['4.1.2'],
+  'autocomplete-valid': ['1.3.5'],
+  'button-name': ['4.1.2'],
+  'bypass': ['2.4.1'],
+  'color-contrast': ['1.4.3'],
+  'definition-list': ['1.3.1'],
+  'dlitem': ['1.3.1'],
+  'document-title': ['2.4.2'],
+  'duplicate-id-aria': ['4.1.2'],
+  'form-field-multiple-labels': ['3.3.2'],
+  'frame-title': ['4.1.2'],
+  'html-has-lang': ['3.1.1'],
+  'html-lang-valid': ['3.1.1'],
+  'html-xml-lang-mismatch': ['3.1.1'],
+  'identical-links-same-purpose': ['2.4.9'],
+  'image-alt': ['1.1.1'],
+  'input-button-name': ['4.1.2'],
+  'input-image-alt': ['1.1.1', '4.1.2'],
+  'label': ['4.1.2'],
+  'label-content-name-mismatch': ['2.5.3'],
+  'link-in-text-block': ['1.4.1'],
+  'link-name': ['2.4.4', '4.1.2'],
+  'list': ['1.3.1'],
+  'listitem': ['1.3.1'],
+  'meta-refresh': ['2.2.1', '2.2.4', '3.2.5'],
+  'meta-viewport': ['1.4.4'],
+  'object-alt': ['1.1.1'],
+  'select-name': ['4.1.2'],
+  'svg-img-alt': ['1.1.1'],
+  'table-fake-caption': ['1.3.1'],
+  'target-size': ['2.5.8'],
+  'td-has-header': ['1.3.1'],
+  'td-headers-attr': ['1.3.1'],
+  'th-has-data-cells': ['1.3.1'],
+  'valid-lang': ['3.1.2'],
+  'video-caption': ['1.2.2'],
+};
+
+const compareCriteria = (a: WcagCriterion, b: WcagCriterion) =>
+  a.id.localeCompare(b.id, undefined, { numeric: true });
+
+/**
+ * Success criteria a Lighthouse audit tests, empty for best-practice audits
+ */
+export function getAuditCriteria(auditId: string): WcagCriterion[] {
+  return (AUDIT_WCAG_CRITERIA[auditId] || []).map((id) => WCAG_CRITERIA[id]);
+}
+
+/**
+ * Criteria failed by a site's accessibility audits, grouped by principle. Detail reports only
+ * list audits that did not pass, so every other checked criterion had no automated failures.
+ */
+export function getWcagConformance(audits: AuditIssue[]): Record<WcagPrinciple, WcagCriterionResult[]> {
+  const results = new Map<string, WcagCriterionResult>();
+
+  audits.filter(isFailingAudit).forEach((audit) => {
+    getAuditCriteria(audit.id).forEach((criterion) => {
+      const result = results.get(criterion.id) ?? { criterion, failingAudits: [] };
+      result.failingAudits.push({ id: audit.id, title: audit.title });
+      results.set(criterion.id, result);
+    });
+  });
+
+  const sorted = [...results.values()].sort((a, b) => compareCriteria(a.criterion, b.criterion));
+  return Object.fromEntries(WCAG_PRINCIPLES.map((principle) => [
+    principle,
+    sorted.filter((result) => result.criterion.principle === principle),
+  ])) as Record<WcagPrinciple, WcagCriterionResult[]>;
+}
+
+/**
+ * Criteria Lighthouse checks, per principle
+ */
+export function getCheckedCriteria(principle: WcagPrinciple): WcagCriterion[] {
+  return Object.values(WCAG_CRITERIA).filter((criterion) => criterion.principle === principle).sort(compareCriteria);
+}
+
+/**
+ * Group failing success criteria across country detail reports, most widespread first
+ */
+export function aggregateFailingCriteria(reports: CountryReport[]): WcagCriterionFailure[] {
+  const failures = new Map<string, WcagCriterionFailure>();
+
+  reports.filter(isAuditSuccessful).forEach((report) => {
+    const conformance = getWcagConformance(report.metrics.audits?.accessibility || []);
+    WCAG_PRINCIPLES.flatMap((principle) => conformance[principle]).forEach(({ criterion }) => {
+      const failure = failures.get(criterion.id) ?? { criterion, countries: [] };
+      failure.countries.push({ country: report.country, tld: report.tld });
+      failures.set(criterion.id, failure);
+    });
+  });
+
+  return [...failures.values()]
+    .map((failure) => ({
+      ...failure,
+      countries: failure.countries.sort((a, b) => a.country.localeCompare(b.country)),
+    }))
+    .sort((a, b) => b.countries.length - a.countries.length || compareCriteria(a.criterion, b.criterion));
+}
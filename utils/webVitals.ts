@@ -0,0 +1,163 @@
+import { CountryReport, CountryVitals, TimingMetrics, VitalMetric, VitalRating } from '@/types';
+import { isAuditSuccessful } from '@/utils/auditStatus';
+
+interface TimingMetricInfo {
+  key: keyof TimingMetrics;
+  label: string;
+  unit: string;
+}
+
+// Every collected timing metric, in display order
+export const TIMING_METRICS: TimingMetricInfo[] = [
+  { key: 'largestContentfulPaint', label: 'Largest Contentful Paint', unit: 'ms' },
+  { key: 'cumulativeLayoutShift', label: 'Cumulative Layout Shift', unit: '' },
+  { key: 'totalBlockingTime', label: 'Total Blocking Time', unit: 'ms' },
+  { key: 'firstContentfulPaint', label: 'First Contentful Paint', unit: 'ms' },
+  { key: 'timeToFirstByte', label: 'Time to First Byte', unit: 'ms' },
+  { key: 'speedIndex', label: 'Speed Index', unit: 'ms' },
+  { key: 'timeToInteractive', label: 'Time to Interactive', unit: 'ms' },
+  { key: 'maxPotentialFid', label: 'Max Potential First Input Delay', unit: 'ms' },
+  { key: 'serverResponseTime', label: 'Server response time', unit: 'ms' },
+];
+
+// Values up to `good` are good and values above `poor` are poor, as published on web.dev.
+// INP needs real user input, so the lab audits stand in Total Blocking Time (rated with
+// Lighthouse's own thresholds) and Max Potential FID (rated as FID).
+export const VITAL_THRESHOLDS: Record<VitalMetric, { good: number; poor: number }> = {
+  largestContentfulPaint: { good: 2500, poor: 4000 },
+  cumulativeLayoutShift: { good: 0.1, poor: 0.25 },
+  totalBlockingTime: { good: 200, poor: 600 },
+  firstContentfulPaint: { good: 1800, poor: 3000 },
+  timeToFirstByte: { good: 800, poor: 1800 },
+  maxPotentialFid: { good: 100, poor: 300 },
+};
+
+export const VITAL_METRICS = Object.keys(VITAL_THRESHOLDS) as VitalMetric[];
+
+// Lab equivalents of the Core Web Vitals (LCP, CLS and INP)
+export const CORE_WEB_VITALS: VitalMetric[] = ['largestContentfulPaint', 'cumulativeLayoutShift', 'totalBlockingTime'];
+
+export const VITAL_RATING_LABELS: Record<VitalRating, string> = {
+  good: 'Good',
+  'needs-improvement': 'Needs improvement',
+  poor: 'Poor',
+};
+
+export const VITAL_RATING_TAG_TYPES = {
+  good: 'green',
+  'needs-improvement': 'magenta',
+  poor: 'red',
+} as const;
+
+const RATING_ORDER: Record<VitalRating, number> = {
+  good: 0,
+  'needs-improvement': 1,
+  poor: 2,
+};
+
+export function isVitalMetric(key: keyof TimingMetrics): key is VitalMetric {
+  return key in VITAL_THRESHOLDS;
+}
+
+export function getTimingMetricLabel(key: keyof TimingMetrics): string {
+  return TIMING_METRICS.find((metric) => metric.key === key)?.label ?? key;
+}
+
+/**
+ * Reports written before the extra lab metrics were collected stored a measured 0 as null,
+ * which for Total Blocking Time and Cumulative Layout Shift means no blocking or no shifts.
+ */
+export function normalizeTiming(timing: TimingMetrics): TimingMetrics {
+  if (timing.timeToInteractive !== undefined) return timing;
+  return {
+    ...timing,
+    totalBlockingTime: timing.totalBlockingTime ?? 0,
+    cumulativeLayoutShift: timing.cumulativeLayoutShift ?? 0,
+  };
+}
+
+/**
+ * Rate a metric value against its thresholds, or null when it was not measured
+ */
+export function classifyVital(metric: VitalMetric, value: number | null | undefined): VitalRating | null {
+  if (value === null || value === undefined) return null;
+  const { good, poor } = VITAL_THRESHOLDS[metric];
+  if (value <= good) return 'good';
+  if (value <= poor) return 'needs-improvement';
+  return 'poor';
+}
+
+/**
+ * Assess the Core Web Vitals together: good only when all of them are good, poor when any is poor
+ */
+export function assessCoreWebVitals(timing: TimingMetrics): VitalRating | null {
+  const ratings = CORE_WEB_VITALS.map((metric) => classifyVital(metric, timing[metric]));
+  if (ratings.some((rating) => rating === null)) return null;
+  if (ratings.includes('poor')) return 'poor';
+  return ratings.every((rating) => rating === 'good') ? 'good' : 'needs-improvement';
+}
+
+/**
+ * Collect the rated vitals of every successfully audited country detail report
+ */
+export function getCountryVitals(reports: CountryReport[]): CountryVitals[] {
+  return reports
+    .filter((report) => isAuditSuccessful(report) && report.metrics.timing)
+    .map((report) => {
+      const timing = normalizeTiming(report.metrics.timing!);
+      const ratings: CountryVitals['ratings'] = {};
+      VITAL_METRICS.forEach((metric) => {
+        const rating = classifyVital(metric, timing[metric]);
+        if (rating) ratings[metric] = rating;
+      });
+
+      return {
+        country: report.country,
+        tld: report.tld,
+        timing,
+        ratings,
+        assessment: assessCoreWebVitals(timing),
+        goodCount: Object.values(ratings).filter((rating) => rating === 'good').length,
+      };
+    });
+}
+
+/**
+ * Order countries by their Core Web Vitals assessment, then by the number of good vitals,
+ * then by LCP. Countries without an assessment come last.
+ */
+export function sortByVitals(vitals: CountryVitals[]): CountryVitals[] {
+  const assessmentOrder = (entry: CountryVitals) =>
+    entry.assessment ? RATING_ORDER[entry.assessment] : Infinity;
+
+  return [...vitals].sort((a, b) =>
+    assessmentOrder(a) - assessmentOrder(b) ||
+    b.goodCount - a.goodCount ||
+    (a.timing.largestContentfulPaint ?? Infinity) - (b.timing.largestContentfulPaint ?? Infinity) ||
+    a.country.localeCompare(b.country)
+  );
+}
+
+/**
+ * Order countries by one timing metric, fastest first. Unmeasured values come last.
+ */
+export function sortByTimingMetric(vitals: CountryVitals[], metric: keyof TimingMetrics): CountryVitals[] {
+  return [...vitals].sort((a, b) =>
+    (a.timing[metric] ?? Infinity) - (b.timing[metric] ?? Infinity) ||
+    a.country.localeCompare(b.country)
+  );
+}
+
+/**
+ * Count how many countries fall in each rating, per vital
+ */
+export function getVitalDistribution(vitals: CountryVitals[]): Record<VitalMetric, Record<VitalRating, number>> {
+  return Object.fromEntries(VITAL_METRICS.map((metric) => {
+    const counts: Record<VitalRating, number> = { good: 0, 'needs-improvement': 0, poor: 0 };
+    vitals.forEach((entry) => {
+      const rating = entry.ratings[metric];
+      if (rating) counts[rating] += 1;
+    });
+    return [metric, counts];
+  })) as Record<VitalMetric, Record<VitalRating, number>>;
+}